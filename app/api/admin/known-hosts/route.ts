@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { approveHostKey, listKnownHosts, removeKnownHost } from '../../../lib/knownHosts';
+
+// List pinned and pending host keys
+export async function GET(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  return NextResponse.json({ success: true, hosts: listKnownHosts() });
+}
+
+// Approve a host key: { host: "address:port", fingerprint: "SHA256:..." }
+export async function POST(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { host, fingerprint } = await request.json();
+
+    if (!host || !fingerprint) {
+      return NextResponse.json(
+        { error: true, message: 'Missing required parameters (host, fingerprint)' },
+        { status: 400 }
+      );
+    }
+
+    const entry = approveHostKey(host, fingerprint);
+    if (!entry) {
+      return NextResponse.json(
+        { error: true, message: `No host key recorded for ${host}` },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Admin approved host key for ${host}: ${fingerprint}`);
+    return NextResponse.json({ success: true, host: entry });
+  } catch (error) {
+    console.error('Known host approval error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to approve host key' },
+      { status: 500 }
+    );
+  }
+}
+
+// Forget a host so its key is recorded afresh on the next connection: { host: "address:port" }
+export async function DELETE(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { host } = await request.json();
+
+    if (!host || !removeKnownHost(host)) {
+      return NextResponse.json(
+        { error: true, message: `No host key recorded for ${host}` },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Admin removed host key for ${host}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Known host removal error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to remove host key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '../../../lib/adminAuth';
+import { resetSecondFactor } from '../../../lib/secondFactor';
+
+// Reset a user's authenticator so they can enroll again: { username }
+export async function DELETE(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { username } = await request.json();
+
+    if (!username || !resetSecondFactor(username)) {
+      return NextResponse.json(
+        { error: true, message: `No second factor enrolled for ${username}` },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Admin reset second factor for ${username}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Second factor reset error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to reset second factor' },
+      { status: 500 }
+    );
+  }
+}
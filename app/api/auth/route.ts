@@ -1,85 +1,110 @@
 import { NextResponse } from 'next/server';
-import { Client } from 'ssh2';
+import { createSessionToken, setSession, SESSION_TTL_MS } from '../../lib/sessionStore';
+import { AUTH_METHOD_LABELS, parseSshCredentials } from '../../lib/sshCredentials';
+import { toSshErrorDetails } from '../../lib/sshConnection';
+import { closePooledClient, getPooledClient } from '../../lib/sshPool';
+import { getHostProfile, getHostProfiles, resolveHostPaths, toPublicHostProfile } from '../../lib/hostProfiles';
+import { checkSecondFactor, consumeSecondFactor, isEnrolled } from '../../lib/secondFactor';
+import { checkLoginLockout, failedLoginResponse, getClientIp, loginLockedResponse, recordLoginSuccess } from '../../lib/loginThrottle';
+
+// List the host profiles users can log in to
+export async function GET() {
+  return NextResponse.json({
+    hosts: getHostProfiles().map(toPublicHostProfile)
+  });
+}
 
 export async function POST(request: Request) {
   try {
-    const { ip, hostname, password } = await request.json();
-    console.log(`Attempting SSH connection to: ${ip} with username: ${hostname} using password authentication`);
+    const body = await request.json();
+    const { hostId, hostname, otp } = body;
+    
+    // Refuse locked-out usernames and addresses before doing any work
+    const clientIp = getClientIp(request);
+    const lockout = checkLoginLockout(hostname || '', clientIp);
+    if (lockout) {
+      return loginLockedResponse(lockout);
+    }
+
+    const host = getHostProfile(hostId);
+    if (!host) {
+      return NextResponse.json(
+        { error: true, message: `Unknown host profile: ${hostId}` },
+        { status: 400 }
+      );
+    }
+
+    const { credentials, error: credentialsError } = parseSshCredentials(body, host);
+    if (!credentials) {
+      return NextResponse.json(
+        { error: true, message: credentialsError },
+        { status: 400 }
+      );
+    }
+
+    // Second factor is checked before any SSH connection is attempted
+    if (!hostname || !isEnrolled(hostname)) {
+      return NextResponse.json(
+        { error: true, code: 'OTP_ENROLLMENT_REQUIRED', message: 'Set up an authenticator app before logging in.' },
+        { status: 403 }
+      );
+    }
+
+    const secondFactor = checkSecondFactor(hostname, typeof otp === 'string' ? otp.trim() : '');
+    if (!secondFactor) {
+      return failedLoginResponse(hostname, clientIp, NextResponse.json(
+        { error: true, code: 'OTP_INVALID', message: 'Invalid or already used authentication code.' },
+        { status: 401 }
+      ));
+    }
+
+    const methodLabel = AUTH_METHOD_LABELS[credentials.method];
+    console.log(`Attempting SSH connection to: ${host.label} (${host.address}:${host.port}) with username: ${hostname} using ${methodLabel} authentication`);
     
-    // Regular SSH authentication logic
-    // Wrap in a Promise so Next.js waits for the SSH callbacks
-    return new Promise<NextResponse>((resolve) => {
-      const conn = new Client();
+    // The session token doubles as the connection pool key, so the connection that proves
+    // the credentials is kept open for the upload and run routes
+    const sessionToken = createSessionToken();
+    try {
+      await getPooledClient(sessionToken, { host, username: hostname, credentials });
+    } catch (error) {
+      const { status, message, code, hostKey, originalError } = toSshErrorDetails(error);
+      const response = NextResponse.json(
+        { error: true, message, code, hostKey, originalError },
+        { status }
+      );
+      // Only rejected credentials count towards a lockout, not unreachable hosts
+      return status === 401 ? failedLoginResponse(hostname, clientIp, response) : response;
+    }
+
+    console.log('SSH connection successful');
+    recordLoginSuccess(hostname, clientIp);
+
+    // Only now is the code used up, so a mistyped password doesn't burn it
+    if (!consumeSecondFactor(hostname, secondFactor)) {
+      closePooledClient(sessionToken);
+      return NextResponse.json(
+        { error: true, code: 'OTP_INVALID', message: 'Authentication code was already used. Please wait for a new one.' },
+        { status: 401 }
+      );
+    }
+
+    // Keep the credential server-side and hand the browser an opaque token
+    const expiresAt = Date.now() + SESSION_TTL_MS;
+    setSession(sessionToken, { hostId: host.id, hostname, credentials, expiresAt });
 
-      // Set a timeout for the entire connection process - 10 seconds
-      const timeoutId = setTimeout(() => {
-        conn.end();
-        console.error('SSH connection timeout');
-        resolve(
-          NextResponse.json(
-            { error: true, message: `Connection timed out after 10 seconds. Please check if the server at ${ip} is reachable and that SSH is running on port 22.` },
-            { status: 500 }
-          )
-        );
-      }, 10000); // 10 seconds timeout
-      
-      conn
-        .on('ready', () => {
-          console.log('SSH connection successful');
-          clearTimeout(timeoutId);
-          conn.end();
-          resolve(NextResponse.json({ success: true }));
-        })
-        .on('error', (err) => {
-          clearTimeout(timeoutId);
-          console.error('SSH connection error:', err.message);
-          
-          // Specific error messages based on common errors
-          let statusMessage = err.message;
-          let statusCode = 500;
-          
-          if (err.message.includes('timeout') || err.message.includes('Timed out')) {
-            statusMessage = `Connection timed out. Please check if the server at ${ip} is reachable and that SSH is running on port 22.`;
-          } else if (err.message.includes('authentication methods failed')) {
-            statusMessage = 'Invalid credentials. Please check your username and password.';
-            statusCode = 401;
-          } else if (err.message.includes('ECONNREFUSED')) {
-            statusMessage = `Connection refused. Please check if SSH is running on ${ip}:22.`;
-          } else if (err.message.includes('connection reset by peer')) {
-            statusMessage = 'Connection was reset by the server. This could be due to network issues or server configuration.';
-          }
-          
-          resolve(
-            NextResponse.json(
-              { error: true, message: statusMessage, originalError: err.message },
-              { status: statusCode }
-            )
-          );
-        })
-        .on('keyboard-interactive', (name, instructions, lang, prompts, finish) => {
-          // If we have a password and this is a keyboard-interactive fallback
-          if (password && prompts.length === 1) {
-            finish([password]);
-          } else {
-            finish([]);
-          }
-        });
-      
-      // Build connection config for password authentication
-      const connectionConfig = {
-        host: ip,
-        port: 22,
-        username: hostname,
-        password: password,
-        readyTimeout: 8000, // Reduce the internal SSH2 library timeout
-        keepaliveInterval: 2000, // Send keepalive every 2 seconds
-        keepaliveCountMax: 3, // Allow 3 missed keepalives before considering connection dead
-        // Try both password and keyboard-interactive
-        tryKeyboard: true
-      };
-      
-      // Connect with password authentication
-      conn.connect(connectionConfig);
+    const publicHost = toPublicHostProfile(host);
+    return NextResponse.json({
+      success: true,
+      sessionToken,
+      sessionData: {
+        hostId: host.id,
+        hostLabel: host.label,
+        hostname,
+        paths: resolveHostPaths(host, hostname),
+        computeNodes: publicHost.computeNodes,
+        slurm: publicHost.slurm,
+        expiresAt
+      }
     });
   } catch (error) {
     console.error('Request processing error:', error);
@@ -88,4 +113,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { parseSshCredentials } from '../../../lib/sshCredentials';
+import { verifySshLogin } from '../../../lib/sshConnection';
+import { getHostProfile } from '../../../lib/hostProfiles';
+import { confirmEnrollment, isEnrolled, startEnrollment } from '../../../lib/secondFactor';
+import { checkLoginLockout, failedLoginResponse, getClientIp, loginLockedResponse } from '../../../lib/loginThrottle';
+
+// Authenticator enrollment
+//   { action: 'start', hostId, hostname, ...credentials } - proves the SSH login works, then
+//     returns a new secret (otpauth URI + QR code) and one-time recovery codes
+//   { action: 'confirm', hostname, code } - activates the pending secret
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, hostname } = body;
+
+    if (!hostname) {
+      return NextResponse.json(
+        { error: true, message: 'Missing required parameter (hostname)' },
+        { status: 400 }
+      );
+    }
+
+    // Enrollment attempts SSH logins and accepts codes too, so it shares the login lockout
+    const clientIp = getClientIp(request);
+    const lockout = checkLoginLockout(hostname, clientIp);
+    if (lockout) {
+      return loginLockedResponse(lockout);
+    }
+
+    if (action === 'confirm') {
+      if (!confirmEnrollment(hostname, typeof body.code === 'string' ? body.code.trim() : '')) {
+        return failedLoginResponse(hostname, clientIp, NextResponse.json(
+          { error: true, code: 'OTP_INVALID', message: 'That code did not match. Check the time on your device and try again.' },
+          { status: 400 }
+        ));
+      }
+      console.log(`Authenticator enrolled for ${hostname}`);
+      return NextResponse.json({ success: true });
+    }
+
+    if (action !== 'start') {
+      return NextResponse.json(
+        { error: true, message: `Unknown action: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    if (isEnrolled(hostname)) {
+      return NextResponse.json(
+        { error: true, message: 'An authenticator is already set up for this account. Ask an administrator to reset it.' },
+        { status: 409 }
+      );
+    }
+
+    const host = getHostProfile(body.hostId);
+    if (!host) {
+      return NextResponse.json(
+        { error: true, message: `Unknown host profile: ${body.hostId}` },
+        { status: 400 }
+      );
+    }
+
+    const { credentials, error: credentialsError } = parseSshCredentials(body, host);
+    if (!credentials) {
+      return NextResponse.json(
+        { error: true, message: credentialsError },
+        { status: 400 }
+      );
+    }
+
+    // Without a second factor yet, the SSH login is the only proof of identity. The
+    // server's ssh-agent proves nothing about who is asking, so it can't be used here.
+    if (credentials.method === 'agent') {
+      return NextResponse.json(
+        { error: true, message: 'Set up your authenticator with your password or private key; ssh-agent logins can only be used once it is set up' },
+        { status: 400 }
+      );
+    }
+
+    const failure = await verifySshLogin({ host, username: hostname, credentials });
+    if (failure) {
+      const { status, message, code, hostKey, originalError } = failure;
+      const response = NextResponse.json(
+        { error: true, message, code, hostKey, originalError },
+        { status }
+      );
+      return status === 401 ? failedLoginResponse(hostname, clientIp, response) : response;
+    }
+
+    const enrollment = startEnrollment(hostname);
+    if (!enrollment) {
+      return NextResponse.json(
+        { error: true, message: 'An authenticator is already set up for this account.' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...enrollment,
+      qrCode: await QRCode.toDataURL(enrollment.otpauthUri)
+    });
+  } catch (error) {
+    console.error('Authenticator enrollment error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to process enrollment request', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
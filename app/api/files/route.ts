@@ -0,0 +1,158 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget, RequestSession, withComputeNode } from '../../lib/sessionAuth';
+import { SshTarget } from '../../lib/sshConnection';
+import {
+  deleteRemotePath,
+  getFileRoot,
+  listRemoteDirectory,
+  makeRemoteDirectory,
+  renameRemotePath,
+  resolveRemotePath,
+  statRemotePath,
+  toRemoteFileErrorDetails,
+} from '../../lib/remoteFiles';
+
+// Files on the session's host (or one of its compute nodes, with nodeId), confined to the
+// session's file root:
+// - GET ?path=&nodeId=            details of a path, and the entries of a directory
+// - POST { path, nodeId }         create a directory
+// - PATCH { path, to, nodeId }    rename or move a path
+// - DELETE { path, recursive, nodeId }  delete a path; directories that aren't empty need recursive
+// Paths may be absolute or relative to the root, which every response includes.
+
+type FilesContext = { auth: RequestSession; target: SshTarget; root: string };
+
+// Session, target and file root of a request, or the error response to send instead
+function getFilesContext(request: Request, nodeId: unknown): FilesContext | NextResponse {
+  const auth = getRequestSession(request);
+  if (!auth) {
+    return NextResponse.json(
+      { error: true, message: 'Session expired or invalid. Please log in again.' },
+      { status: 401 }
+    );
+  }
+
+  const sessionTarget = getSessionTarget(auth.session);
+  if (!sessionTarget) {
+    return NextResponse.json(
+      { error: true, message: 'Host profile for this session is no longer configured. Please log in again.' },
+      { status: 401 }
+    );
+  }
+
+  const target = withComputeNode(sessionTarget, typeof nodeId === 'string' ? nodeId : '');
+  if (!target) {
+    return NextResponse.json(
+      { error: true, message: `Unknown compute node: ${nodeId}` },
+      { status: 400 }
+    );
+  }
+
+  return { auth, target, root: getFileRoot(target) };
+}
+
+function fileErrorResponse(error: unknown, action: string): NextResponse {
+  const { status, message } = toRemoteFileErrorDetails(error);
+  if (status === 500) {
+    console.error(`Remote file ${action} error:`, error);
+  }
+  return NextResponse.json({ error: true, message: `Failed to ${action}: ${message}` }, { status });
+}
+
+// Renaming or deleting the root itself would take the browser's footing away
+function rootChangeResponse(remotePath: string, root: string): NextResponse | null {
+  return remotePath === resolveRemotePath(root, '.')
+    ? NextResponse.json({ error: true, message: `${root} itself can't be changed` }, { status: 400 })
+    : null;
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const context = getFilesContext(request, searchParams.get('nodeId'));
+  if (context instanceof NextResponse) return context;
+  const { auth, target, root } = context;
+
+  try {
+    const remotePath = resolveRemotePath(root, searchParams.get('path') || '.');
+    const entry = await statRemotePath(auth.token, target, remotePath);
+    if (entry.type !== 'directory') {
+      return NextResponse.json({ success: true, root, path: remotePath, entry });
+    }
+    const { entries, truncated } = await listRemoteDirectory(auth.token, target, remotePath);
+    return NextResponse.json({ success: true, root, path: remotePath, entry, entries, truncated });
+  } catch (error) {
+    return fileErrorResponse(error, 'read path');
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const context = getFilesContext(request, body.nodeId);
+  if (context instanceof NextResponse) return context;
+  const { auth, target, root } = context;
+
+  if (typeof body.path !== 'string' || !body.path.trim()) {
+    return NextResponse.json(
+      { error: true, message: 'Missing required parameter (path)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const entry = await makeRemoteDirectory(auth.token, target, resolveRemotePath(root, body.path));
+    return NextResponse.json({ success: true, root, entry });
+  } catch (error) {
+    return fileErrorResponse(error, 'create directory');
+  }
+}
+
+export async function PATCH(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const context = getFilesContext(request, body.nodeId);
+  if (context instanceof NextResponse) return context;
+  const { auth, target, root } = context;
+
+  if (typeof body.path !== 'string' || typeof body.to !== 'string' || !body.path.trim() || !body.to.trim()) {
+    return NextResponse.json(
+      { error: true, message: 'Missing required parameters (path, to)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const fromPath = resolveRemotePath(root, body.path);
+    const toPath = resolveRemotePath(root, body.to);
+    const denied = rootChangeResponse(fromPath, root) || rootChangeResponse(toPath, root);
+    if (denied) return denied;
+
+    const entry = await renameRemotePath(auth.token, target, fromPath, toPath);
+    return NextResponse.json({ success: true, root, entry });
+  } catch (error) {
+    return fileErrorResponse(error, 'rename');
+  }
+}
+
+export async function DELETE(request: Request) {
+  const body = await request.json().catch(() => ({}));
+  const context = getFilesContext(request, body.nodeId);
+  if (context instanceof NextResponse) return context;
+  const { auth, target, root } = context;
+
+  if (typeof body.path !== 'string' || !body.path.trim()) {
+    return NextResponse.json(
+      { error: true, message: 'Missing required parameter (path)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const remotePath = resolveRemotePath(root, body.path);
+    const denied = rootChangeResponse(remotePath, root);
+    if (denied) return denied;
+
+    await deleteRemotePath(auth.token, target, remotePath, body.recursive === true);
+    return NextResponse.json({ success: true, root, path: remotePath });
+  } catch (error) {
+    return fileErrorResponse(error, 'delete');
+  }
+}
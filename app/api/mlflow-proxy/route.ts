@@ -1,32 +1,26 @@
 // app/api/mlflow-proxy/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-
-// Add CORS headers to the response
-function corsHeaders(response: NextResponse) {
-  response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  return response;
-}
-
-// Handle OPTIONS requests (preflight)
-export async function OPTIONS() {
-  return corsHeaders(new NextResponse(null, { status: 204 }));
-}
+import { getRequestSession } from '../../lib/sessionAuth';
 
 // Handle POST requests
 export async function POST(request: NextRequest) {
   try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
     const url = new URL(request.url);
     const runId = url.searchParams.get('run_id');
     const mlflowUri = url.searchParams.get('mlflowUri');
     
     if (!runId || !mlflowUri) {
-      return corsHeaders(
-        NextResponse.json(
-          { error: true, message: 'Missing required parameters: run_id, mlflowUri' },
-          { status: 400 }
-        )
+      return NextResponse.json(
+        { error: true, message: 'Missing required parameters: run_id, mlflowUri' },
+        { status: 400 }
       );
     }
     
@@ -62,20 +56,18 @@ export async function POST(request: NextRequest) {
         console.error(`MLflow server returned error: ${mlflowResponse.status} ${mlflowResponse.statusText}`);
         console.error(`Error details: ${errorText}`);
         
-        return corsHeaders(
-          NextResponse.json(
-            { 
-              error: true, 
-              message: `MLflow server error: ${mlflowResponse.status} ${mlflowResponse.statusText}`,
-              details: errorText
-            },
-            { status: mlflowResponse.status }
-          )
+        return NextResponse.json(
+          { 
+            error: true, 
+            message: `MLflow server error: ${mlflowResponse.status} ${mlflowResponse.statusText}`,
+            details: errorText
+          },
+          { status: mlflowResponse.status }
         );
       }
       
       const data = await mlflowResponse.json();
-      return corsHeaders(NextResponse.json(data, { status: 200 }));
+      return NextResponse.json(data, { status: 200 });
     } catch (fetchError) {
       clearTimeout(timeoutId);
       throw fetchError; // Re-throw to be caught by outer try-catch
@@ -93,15 +85,13 @@ export async function POST(request: NextRequest) {
       errorMessage = 'Cannot connect to MLflow server - server may be down or unreachable';
     }
     
-    return corsHeaders(
-      NextResponse.json(
-        { 
-          error: true, 
-          message: errorMessage, 
-          details: errorDetails
-        },
-        { status: 500 }
-      )
+    return NextResponse.json(
+      { 
+        error: true, 
+        message: errorMessage, 
+        details: errorDetails
+      },
+      { status: 500 }
     );
   }
 }
\ No newline at end of file
@@ -1,31 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Add CORS headers to the response
-function corsHeaders(response: NextResponse) {
-  response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  return response;
-}
-
-// Handle OPTIONS requests (preflight)
-export async function OPTIONS() {
-  return corsHeaders(new NextResponse(null, { status: 204 }));
-}
+import { getRequestSession } from '../../lib/sessionAuth';
 
 // Handle GET requests - list runs from experiment 0
 export async function GET(request: NextRequest) {
   try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
     const url = new URL(request.url);
     const mlflowUri = url.searchParams.get('mlflowUri');
     const experimentId = url.searchParams.get('experiment_id') || '0'; // Default to experiment 0
     
     if (!mlflowUri) {
-      return corsHeaders(
-        NextResponse.json(
-          { error: true, message: 'Missing required parameter: mlflowUri' },
-          { status: 400 }
-        )
+      return NextResponse.json(
+        { error: true, message: 'Missing required parameter: mlflowUri' },
+        { status: 400 }
       );
     }
     
@@ -61,20 +55,18 @@ export async function GET(request: NextRequest) {
         console.error(`MLflow server returned error: ${mlflowResponse.status} ${mlflowResponse.statusText}`);
         console.error(`Error details: ${errorText}`);
         
-        return corsHeaders(
-          NextResponse.json(
-            { 
-              error: true, 
-              message: `MLflow server error: ${mlflowResponse.status} ${mlflowResponse.statusText}`,
-              details: errorText
-            },
-            { status: mlflowResponse.status }
-          )
+        return NextResponse.json(
+          { 
+            error: true, 
+            message: `MLflow server error: ${mlflowResponse.status} ${mlflowResponse.statusText}`,
+            details: errorText
+          },
+          { status: mlflowResponse.status }
         );
       }
       
       const data = await mlflowResponse.json();
-      return corsHeaders(NextResponse.json(data, { status: 200 }));
+      return NextResponse.json(data, { status: 200 });
     } catch (fetchError) {
       clearTimeout(timeoutId);
       throw fetchError; // Re-throw to be caught by outer try-catch
@@ -92,15 +84,13 @@ export async function GET(request: NextRequest) {
       errorMessage = 'Cannot connect to MLflow server - server may be down or unreachable';
     }
     
-    return corsHeaders(
-      NextResponse.json(
-        { 
-          error: true, 
-          message: errorMessage, 
-          details: errorDetails
-        },
-        { status: 500 }
-      )
+    return NextResponse.json(
+      { 
+        error: true, 
+        message: errorMessage, 
+        details: errorDetails
+      },
+      { status: 500 }
     );
   }
 }
\ No newline at end of file
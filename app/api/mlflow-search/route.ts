@@ -1,30 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Add CORS headers to the response
-function corsHeaders(response: NextResponse) {
-  response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  return response;
-}
-
-// Handle OPTIONS requests (preflight)
-export async function OPTIONS() {
-  return corsHeaders(new NextResponse(null, { status: 204 }));
-}
+import { getRequestSession } from '../../lib/sessionAuth';
 
 // Handle POST requests to search for runs by name
 export async function POST(request: NextRequest) {
   try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
     const url = new URL(request.url);
     const mlflowUri = url.searchParams.get('mlflowUri');
     
     if (!mlflowUri) {
-      return corsHeaders(
-        NextResponse.json(
-          { error: true, message: 'Missing required parameter: mlflowUri' },
-          { status: 400 }
-        )
+      return NextResponse.json(
+        { error: true, message: 'Missing required parameter: mlflowUri' },
+        { status: 400 }
       );
     }
 
@@ -33,11 +27,9 @@ export async function POST(request: NextRequest) {
     const { experimentId = '0', runName } = requestBody;
     
     if (!runName) {
-      return corsHeaders(
-        NextResponse.json(
-          { error: true, message: 'Missing required parameter: runName' },
-          { status: 400 }
-        )
+      return NextResponse.json(
+        { error: true, message: 'Missing required parameter: runName' },
+        { status: 400 }
       );
     }
     
@@ -74,15 +66,13 @@ export async function POST(request: NextRequest) {
         console.error(`MLflow server returned error: ${mlflowResponse.status} ${mlflowResponse.statusText}`);
         console.error(`Error details: ${errorText}`);
         
-        return corsHeaders(
-          NextResponse.json(
-            { 
-              error: true, 
-              message: `MLflow server error: ${mlflowResponse.status} ${mlflowResponse.statusText}`,
-              details: errorText
-            },
-            { status: mlflowResponse.status }
-          )
+        return NextResponse.json(
+          { 
+            error: true, 
+            message: `MLflow server error: ${mlflowResponse.status} ${mlflowResponse.statusText}`,
+            details: errorText
+          },
+          { status: mlflowResponse.status }
         );
       }
       
@@ -90,19 +80,17 @@ export async function POST(request: NextRequest) {
       console.log('Search results:', data);
       // Check if any runs were found
       if (!data.runs || data.runs.length === 0) {
-        return corsHeaders(
-          NextResponse.json(
-            { 
-              error: true, 
-              message: `No run found with name: ${runName}`,
-              runs: []
-            },
-            { status: 404 }
-          )
+        return NextResponse.json(
+          { 
+            error: true, 
+            message: `No run found with name: ${runName}`,
+            runs: []
+          },
+          { status: 404 }
         );
       }
       
-      return corsHeaders(NextResponse.json(data, { status: 200 }));
+      return NextResponse.json(data, { status: 200 });
     } catch (fetchError) {
       clearTimeout(timeoutId);
       throw fetchError; // Re-throw to be caught by outer try-catch
@@ -120,15 +108,13 @@ export async function POST(request: NextRequest) {
       errorMessage = 'Cannot connect to MLflow server - server may be down or unreachable';
     }
     
-    return corsHeaders(
-      NextResponse.json(
-        { 
-          error: true, 
-          message: errorMessage, 
-          details: errorDetails
-        },
-        { status: 500 }
-      )
+    return NextResponse.json(
+      { 
+        error: true, 
+        message: errorMessage, 
+        details: errorDetails
+      },
+      { status: 500 }
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../lib/sessionAuth';
+import { getServerConfig } from '../../lib/serverConfig';
+import { isMlflowEnabled, listMlflowExperiments, MlflowExperiment } from '../../lib/mlflowRuns';
+
+// Whether launches can create MLflow runs (see mlflowRuns.ts), and the experiments the
+// uploader offers for them. An unreachable tracking server leaves the list empty, and
+// the experiment id can still be typed in.
+export async function GET(request: Request) {
+  const auth = getRequestSession(request);
+  if (!auth) {
+    return NextResponse.json(
+      { error: true, message: 'Session expired or invalid. Please log in again.' },
+      { status: 401 }
+    );
+  }
+
+  if (!isMlflowEnabled()) {
+    return NextResponse.json({ enabled: false, experiments: [] });
+  }
+
+  const { trackingUri, defaultExperimentId } = getServerConfig().mlflow;
+  let experiments: MlflowExperiment[] = [];
+  let error: string | undefined;
+  try {
+    experiments = await listMlflowExperiments();
+  } catch (listError) {
+    console.error('Error listing MLflow experiments:', listError);
+    error = listError instanceof Error ? listError.message : String(listError);
+  }
+
+  return NextResponse.json({ enabled: true, trackingUri, defaultExperimentId, experiments, ...(error && { error }) });
+}
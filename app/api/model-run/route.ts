@@ -6,14 +6,47 @@
  * RunName-MM_DD_YY-HH_MM_SS (e.g., Signet-06_19_25-11_13_45)
  * 
  * Features:
- * - Extracts runName from uploaded JSON files (supports multiple field locations)
- * - Creates timestamped isolated folders under /home/{hostname}/vmes/
- * - Copies necessary files to isolated environment
- * - Executes envSetup.sh within the isolated context
+ * - Extracts runName from uploaded JSON files (supports multiple field locations), unless
+ *   the request names the run itself (optional "runName" field)
+ * - Runs a recipe chosen by the user (optional "recipeId" field, see runRecipes.ts): it sets
+ *   the project folder, the workspace, the commands and environment, the output that
+ *   marks the run as finished, and the metrics picked out of its output (see runMetrics.ts)
+ * - Creates timestamped isolated folders under the recipe's workspace root (default: the
+ *   host profile's workspace path, /home/{hostname}/vmes/)
+ * - Runs on the login host or on a compute node behind it (optional "nodeId" field);
+ *   compute nodes are expected to share the login host's filesystem paths
+ * - Copies necessary files to isolated environment, then puts the run's own copy of the
+ *   uploaded config in place (the upload folder may have changed by the time a queued
+ *   run starts, and sweep runs are never uploaded there)
+ * - Groups the runs of a parameter sweep ("sweepId" and related fields, see runSweeps.ts)
+ * - Creates an MLflow run for the run in the experiment given as "mlflowExperimentId"
+ *   (optional, see mlflowRuns.ts) and passes MLFLOW_RUN_ID to the run
+ * - Executes the recipe within the isolated context, either started directly (default) or
+ *   submitted as a SLURM batch job ("backend": "slurm", with "partition", "timeLimit",
+ *   "cpus", "memory" and "gpus") on hosts that have a scheduler configured
+ * - Either way the run is detached from this request: output goes to a log file in the
+ *   isolated folder, which is streamed back here and can be re-attached later through
+ *   /api/runs/[id]/log
+ * - Streams the run's events in the versioned format of runStreamProtocol.ts, as NDJSON
+ *   or as server-sent events (?format=sse or "Accept: text/event-stream")
  * - Prevents duplicate executions with reduced timeout (2s vs 5s due to isolation)
+ * - Queues direct runs while the user or the server is at its concurrency limit; the
+ *   stream then waits and follows the run once it starts (see runQueue.ts)
+ * - Records every launch in the run registry (see /api/runs)
  */
 import { NextResponse } from 'next/server';
-import { Client } from 'ssh2';
+import * as path from 'path';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../lib/sessionAuth';
+import { getSessionKey } from '../../lib/sessionStore';
+import { buildRecipeScript, getRunRecipe, resolveRecipePaths } from '../../lib/runRecipes';
+import { createRun, MlflowRunLink } from '../../lib/runRegistry';
+import { detachedRunCommand, shellQuote } from '../../lib/runProcess';
+import { buildSbatchScript, parseSlurmJobOptions, slurmSubmitCommand, SlurmJobOptions } from '../../lib/slurm';
+import { createRunStream } from '../../lib/runMonitor';
+import { getRunStreamFormat, runStreamHeaders } from '../../lib/runStreamProtocol';
+import { parseSweepDetails } from '../../lib/runSweeps';
+import { canStartRun, enqueueRun, RunLaunch, startRun } from '../../lib/runQueue';
+import { createMlflowRun, isMlflowEnabled, isValidExperimentId, mlflowRunEnv, modelRunTags, startMlflowRunTracking, tagMlflowRun } from '../../lib/mlflowRuns';
 
 // Keeping track of active executions to prevent duplicates
 let activeExecutions = new Map();
@@ -22,16 +55,101 @@ export async function POST(request: Request) {
     try {
       // Get authentication details and upload parameters from request
       const formData = await request.formData();
+      const streamFormat = getRunStreamFormat(request);
       const remoteDir = formData.get('remoteDir') as string || '/tmp';
+      const nodeId = formData.get('nodeId') as string || '';
+      const backend = formData.get('backend') === 'slurm' ? 'slurm' : 'direct';
+      const recipeId = formData.get('recipeId') as string || '';
+      const mlflowExperimentId = (formData.get('mlflowExperimentId') as string || '').trim();
       
-      // Extract connection details from the connectionDetails JSON string
-      let ip, hostname, password;
-      const connectionDetailsStr = formData.get('connectionDetails') as string;
+      const recipe = getRunRecipe(recipeId);
+      if (!recipe) {
+        return NextResponse.json(
+          { error: true, message: `Unknown run recipe: ${recipeId}` },
+          { status: 400 }
+        );
+      }
+      
+      // Resolve SSH credentials from the server-side session
+      const auth = getRequestSession(request);
+      if (!auth) {
+        return NextResponse.json(
+          { error: true, message: 'Session expired or invalid. Please log in again.' },
+          { status: 401 }
+        );
+      }
+      const { hostname } = auth.session;
+      
+      const sessionTarget = getSessionTarget(auth.session);
+      if (!sessionTarget) {
+        return NextResponse.json(
+          { error: true, message: 'Host profile for this session is no longer configured. Please log in again.' },
+          { status: 401 }
+        );
+      }
+      
+      // Run on the selected compute node (tunnelled through the login host), or on the login host itself
+      const target = withComputeNode(sessionTarget, nodeId);
+      if (!target) {
+        return NextResponse.json(
+          { error: true, message: `Unknown compute node: ${nodeId}` },
+          { status: 400 }
+        );
+      }
+      
+      // Batch jobs are submitted from the login host; the scheduler picks the node
+      let slurmOptions: SlurmJobOptions | undefined;
+      if (backend === 'slurm') {
+        if (!target.host.slurm) {
+          return NextResponse.json(
+            { error: true, message: `SLURM is not configured for ${target.host.label}` },
+            { status: 400 }
+          );
+        }
+        if (target.node) {
+          return NextResponse.json(
+            { error: true, message: 'SLURM jobs are submitted from the login node; leave "Run On" on the login node' },
+            { status: 400 }
+          );
+        }
+        const { options, error } = parseSlurmJobOptions(formData, target.host.slurm);
+        if (!options) {
+          return NextResponse.json(
+            { error: true, message: error },
+            { status: 400 }
+          );
+        }
+        slurmOptions = options;
+      }
+      
+      const { sweep, error: sweepError } = parseSweepDetails(formData);
+      if (sweepError) {
+        return NextResponse.json(
+          { error: true, message: sweepError },
+          { status: 400 }
+        );
+      }
+      
+      if (mlflowExperimentId && !isMlflowEnabled()) {
+        return NextResponse.json(
+          { error: true, message: 'MLflow runs are not configured on this server' },
+          { status: 400 }
+        );
+      }
+      if (mlflowExperimentId && !isValidExperimentId(mlflowExperimentId)) {
+        return NextResponse.json(
+          { error: true, message: `Invalid MLflow experiment id: ${mlflowExperimentId}` },
+          { status: 400 }
+        );
+      }
       
       // Extract branch-name from uploaded file content for isolated execution
       let runName = 'DefaultRun';
+      const requestedRunName = (formData.get('runName') as string || '').trim();
       const fileEntry = formData.get('file') as File;
-      if (fileEntry) {
+      if (requestedRunName) {
+        runName = requestedRunName.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 50);
+      } else if (fileEntry) {
         try {
           const fileContent = await fileEntry.text();
           const jsonContent = JSON.parse(fileContent);
@@ -95,26 +213,6 @@ export async function POST(request: Request) {
         }
       }
       
-      if (connectionDetailsStr) {
-        try {
-          const connectionDetails = JSON.parse(connectionDetailsStr);
-          ip = connectionDetails.ip;
-          hostname = connectionDetails.hostname;
-          password = connectionDetails.password;
-          
-        } catch (parseError) {
-          console.error('Failed to parse connectionDetails JSON:', parseError);
-        }
-      }
-      
-      // Check if required parameters are provided
-      if (!ip || !hostname || !password) {
-        return NextResponse.json(
-          { error: true, message: 'Missing required parameters (ip, hostname, password)' },
-          { status: 400 }
-        );
-      }
-      
       // Generate timestamp for isolated folder creation in format: MM_DD_YY-HH_MM_SS
       const now = new Date();
       const month = (now.getMonth() + 1).toString().padStart(2, '0');
@@ -127,9 +225,10 @@ export async function POST(request: Request) {
       
       // Create isolated folder name with pattern: RunName-MM_DD_YY-HH_MM_SS
       const isolatedFolderName = `${runName}-${timestamp}`;
-      const vmesBasePath = `/home/${hostname}/vmes`;
+      const recipePaths = resolveRecipePaths(recipe, target.host, hostname);
+      const vmesBasePath = recipePaths.workspace;
       const isolatedPath = `${vmesBasePath}/${isolatedFolderName}`;
-      const sourcePath = `/home/${hostname}/loading`;
+      const sourcePath = recipePaths.source;
       
       console.log(`Creating isolated execution environment: ${isolatedPath}`);
       
@@ -164,170 +263,97 @@ export async function POST(request: Request) {
         activeExecutions.delete(userKey);
       }, 30000); // 30 seconds should be enough for most executions to complete
 
-      // Set up streaming response
-      const encoder = new TextEncoder();
-      const stream = new TransformStream();
-      const writer = stream.writable.getWriter();
+      // The MLflow run has to exist before the command that passes it on is built
+      let mlflowRun: MlflowRunLink | undefined;
+      if (mlflowExperimentId) {
+        startMlflowRunTracking();
+        try {
+          mlflowRun = await createMlflowRun(mlflowExperimentId, runName, fileEntry ? await fileEntry.text() : '', {
+            'mlflow.user': hostname,
+            'vmes.folder': isolatedFolderName,
+            'vmes.host': target.host.label,
+            'vmes.recipe': recipe.id,
+          });
+        } catch (error) {
+          console.error('Could not create MLflow run:', error);
+          return NextResponse.json(
+            { error: true, message: `Could not create the MLflow run: ${error instanceof Error ? error.message : String(error)}` },
+            { status: 502 }
+          );
+        }
+      }
 
-      // Create an async task for the SSH connection and command execution
-      const sshTask = async () => {
-        return new Promise<void>((resolve, reject) => {
-          const sshClient = new Client();
-          
-          sshClient.on('ready', () => {
-            console.log('SSH Connection established');
-            
-            // Send connection established message
-            writer.write(encoder.encode(JSON.stringify({
-              type: 'status',
-              message: 'SSH Connection established'
-            }) + '\n'));
-            
-            // Send isolated folder creation message
-            writer.write(encoder.encode(JSON.stringify({
-              type: 'status',
-              message: `Creating isolated execution environment: ${isolatedFolderName}`
-            }) + '\n'));
-            
-            // Execute all commands in sequence
-            executeIsolatedEnvironment();
-            
-            // Function to execute the isolated environment setup and command
-            function executeIsolatedEnvironment() {
-              // Build the command to:
-              // 1. Create the vmes directory structure
-              // 2. Create the isolated directory
-              // 3. Copy files from loading directory to isolated directory
-              // 4. Change to isolated directory
-              // 5. Execute envSetup.sh
-              const commands = [
-                `mkdir -p "${vmesBasePath}"`,
-                `mkdir -p "${isolatedPath}"`,
-                `cp -r "${sourcePath}"/* "${isolatedPath}/" 2>/dev/null || echo "Warning: Some files may not have been copied"`,
-                `cd "${isolatedPath}"`,
-                `echo "Isolated environment created at: ${isolatedPath}"`,
-                `echo "Files copied from: ${sourcePath}"`,
-                `echo "Current directory: $(pwd)"`,
-                `echo "Starting envSetup.sh execution..."`,
-                `source envSetup.sh`
-              ];
-              
-              const fullCommand = commands.join(' && ');
-              
-              writer.write(encoder.encode(JSON.stringify({
-                type: 'status',
-                message: `Setting up isolated environment: ${isolatedFolderName}`
-              }) + '\n'));
-              
-              writer.write(encoder.encode(JSON.stringify({
-                type: 'status',
-                message: `Copying files from ${sourcePath} to ${isolatedPath}`
-              }) + '\n'));
-              
-              console.log(`Executing isolated setup command: ${fullCommand}`);
-              
-              sshClient.exec(fullCommand, (err, stream) => {
-                if (err) {
-                  console.error('Error executing isolated setup command:', err);
-                  writer.write(encoder.encode(JSON.stringify({
-                    type: 'error',
-                    message: `Error setting up isolated environment ${isolatedFolderName}: ${err.message}`
-                  }) + '\n'));
-                  sshClient.end();
-                  resolve();
-                  return;
-                }
+      // Build the command to:
+      // 1. Create the vmes directory structure
+      // 2. Create the isolated directory
+      // 3. Copy files from loading directory to isolated directory
+      // 4. Change to isolated directory and write the run's config there
+      // 5. Start the recipe detached (or submit it to SLURM), logging to a file in the isolated directory
+      const recipeScript = buildRecipeScript(mlflowRun ? { ...recipe, env: { ...recipe.env, ...mlflowRunEnv(mlflowRun) } } : recipe);
+      const commands = [
+        `mkdir -p "${vmesBasePath}"`,
+        `mkdir -p "${isolatedPath}"`,
+        `cp -r "${sourcePath}"/* "${isolatedPath}/" 2>/dev/null || echo "Warning: Some files may not have been copied"`,
+        `cd "${isolatedPath}"`,
+        ...(fileEntry ? [`printf '%s' ${shellQuote(await fileEntry.text())} > ${shellQuote(path.posix.basename(fileEntry.name))}`] : []),
+        `echo "Isolated environment created at: ${isolatedPath}"`,
+        `echo "Files copied from: ${sourcePath}"`,
+        `echo "Current directory: $(pwd)"`,
+        `echo ${shellQuote(`Starting ${recipe.label} execution...`)}`,
+        slurmOptions && target.host.slurm
+          ? `{ ${slurmSubmitCommand(target.host.slurm, buildSbatchScript(runName, isolatedPath, slurmOptions, recipeScript))}; }`
+          // Survives this request, and its own process group lets a cancel signal everything it starts
+          : `{ ${detachedRunCommand(recipeScript)}; }`
+      ];
+      const launch: RunLaunch = { sessionKey: getSessionKey(auth.token), command: commands.join(' && '), sourcePath };
 
-                writer.write(encoder.encode(JSON.stringify({
-                  type: 'status',
-                  message: `Isolated environment setup running for ${isolatedFolderName}...`
-                }) + '\n'));
+      // SLURM jobs wait in the scheduler's own queue instead
+      const queued = backend === 'direct' && !canStartRun(hostname);
 
-                stream.on('close', (code: any, signal: any) => {
-                  console.log(`Isolated environment setup completed with code: ${code}, signal: ${signal} for: ${isolatedFolderName}`);
-                  
-                  writer.write(encoder.encode(JSON.stringify({
-                    type: code === 0 ? 'success' : 'error',
-                    message: code === 0 ? 
-                      `Isolated environment ${isolatedFolderName} setup completed successfully` : 
-                      `Isolated environment ${isolatedFolderName} setup failed with exit code ${code}`
-                  }) + '\n'));
-                  
-                  sshClient.end();
-                  writer.close().catch(console.error);
-                  resolve();
-                }).on('data', (data: any) => {
-                  const dataString = data.toString().trim();
-                  console.log(`STDOUT: ${dataString}`);
-                  
-                  if (dataString) {
-                    // Stream stdout to client in real-time
-                    writer.write(encoder.encode(JSON.stringify({
-                      type: 'stdout',
-                      message: dataString
-                    }) + '\n'));
-                  }
-                  
-                  // End connection when "Deactivating conda" is detected
-                  if (dataString.includes("Deactivating conda")) {
-                    stream.close();
-                  }
-                }).stderr.on('data', (data: any) => {
-                  const dataString = data.toString().trim();
-                  console.error(`STDERR: ${dataString}`);
-                  
-                  if (dataString) {
-                    // Stream stderr to client in real-time
-                    writer.write(encoder.encode(JSON.stringify({
-                      type: 'stderr',
-                      message: dataString
-                    }) + '\n'));
-                  }
-                });
-              });
-            }
-          });
-          
-          sshClient.on('error', (err) => {
-            console.error('SSH connection error:', err);
-            writer.write(encoder.encode(JSON.stringify({
-              type: 'error',
-              message: `SSH connection error: ${err.message}`
-            }) + '\n'));
-            writer.close().catch(console.error);
-            resolve();
-          });
-          
-          // Connect to the remote server
-          sshClient.connect({
-            host: ip,
-            username: hostname,
-            password: password,
-            port: 22,
-            readyTimeout: 10000
-          });
-        });
-      };
-      
-      // Start the SSH task but don't await it - it will run in the background
-      // while we return the streaming response
-      sshTask().catch(error => {
-        console.error('Error in SSH task:', error);
-        writer.write(encoder.encode(JSON.stringify({
-          type: 'error', 
-          message: `Unexpected error: ${error instanceof Error ? error.message : String(error)}`
-        }) + '\n')).catch(console.error);
+      // Register the run so it can be found again after the stream is gone
+      const run = createRun({
+        user: hostname,
+        runName,
+        folderName: isolatedFolderName,
+        isolatedPath,
+        hostId: target.host.id,
+        hostLabel: target.host.label,
+        ...(target.node && { nodeId: target.node.id, nodeLabel: target.node.label }),
+        // Sweep runs only have their config inside the isolated folder
+        configFile: fileEntry ? path.posix.join(sweep ? isolatedPath : remoteDir, path.posix.basename(fileEntry.name)) : '',
+        recipeId: recipe.id,
+        completion: recipe.completion,
+        ...(recipe.artifacts && { artifacts: recipe.artifacts }),
+        ...(recipe.metrics?.length && { metricRules: recipe.metrics }),
+        backend,
+        ...(slurmOptions && { slurm: slurmOptions }),
+        ...(sweep && { sweep }),
+        ...(mlflowRun && { mlflow: mlflowRun }),
+      }, queued ? 'queued' : 'running');
+
+      if (mlflowRun) {
+        const mlflowRunId = mlflowRun.runId;
+        tagMlflowRun(mlflowRunId, modelRunTags(run.id))
+          .catch(error => console.warn(`Could not tag MLflow run ${mlflowRunId}:`, error));
+      }
+
+      // Set up streaming response
+      const stream = createRunStream(run.id, {
+        format: streamFormat,
+        notice: { type: 'status', message: `Run registered with id ${run.id}${mlflowRun ? `, MLflow run ${mlflowRun.runId}` : ''}` },
       });
+
+      if (queued) {
+        console.log(`Queueing run ${run.id} (${isolatedFolderName}) for ${hostname}`);
+        enqueueRun(run, launch, stream);
+      } else {
+        // Start the run but don't wait for it - it carries on in the background
+        // while we return the streaming response
+        startRun(target, run, launch, auth.token, stream);
+      }
       
       // Return the readable stream as the response
-      return new Response(stream.readable, {
-        headers: {
-          'Content-Type': 'application/json',
-          'Transfer-Encoding': 'chunked',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
-      });
+      return new Response(stream.readable, { headers: runStreamHeaders(streamFormat) });
       
     } catch (error) {
       console.error('Error in model-run API:', error);
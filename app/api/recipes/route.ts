@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../lib/sessionAuth';
+import { getRunRecipes, toPublicRunRecipe } from '../../lib/runRecipes';
+
+// Run recipes the uploader offers; the first one is the default
+export async function GET(request: Request) {
+  const auth = getRequestSession(request);
+  if (!auth) {
+    return NextResponse.json(
+      { error: true, message: 'Session expired or invalid. Please log in again.' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ recipes: getRunRecipes().map(toPublicRunRecipe) });
+}
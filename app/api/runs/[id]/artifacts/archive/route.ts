@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../../../../lib/sessionAuth';
+import { getRun } from '../../../../../lib/runRegistry';
+import { archiveRunArtifacts, listRunArtifacts, resolveArtifactPath } from '../../../../../lib/runArtifacts';
+import { toSshErrorDetails } from '../../../../../lib/sshConnection';
+
+// Download artifacts as one tar.gz: { "paths": [...] } relative to the run's isolated
+// folder, or every artifact when no paths are given
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const { paths } = await request.json().catch(() => ({}));
+    if (paths !== undefined && (!Array.isArray(paths) || paths.some(item => typeof item !== 'string'))) {
+      return NextResponse.json(
+        { error: true, message: 'paths must be a list of artifact paths' },
+        { status: 400 }
+      );
+    }
+
+    const sessionTarget = getSessionTarget(auth.session);
+    const target = sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+    if (!target || target.host.id !== run.hostId) {
+      return NextResponse.json(
+        { error: true, message: 'This run was started on a host your current session is not connected to.' },
+        { status: 409 }
+      );
+    }
+
+    try {
+      let relativePaths: string[];
+      if (paths?.length) {
+        const resolved = (paths as string[]).map(item => resolveArtifactPath(run, item));
+        const invalid = (paths as string[]).filter((_, index) => !resolved[index]);
+        if (invalid.length) {
+          return NextResponse.json(
+            { error: true, message: `Not artifacts of this run: ${invalid.join(', ')}` },
+            { status: 400 }
+          );
+        }
+        relativePaths = resolved as string[];
+      } else {
+        relativePaths = (await listRunArtifacts(auth.token, target, run)).artifacts.map(artifact => artifact.path);
+      }
+
+      if (!relativePaths.length) {
+        return NextResponse.json(
+          { error: true, message: `${run.folderName} has no artifacts` },
+          { status: 404 }
+        );
+      }
+
+      const stream = await archiveRunArtifacts(auth.token, target, run, relativePaths);
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'application/gzip',
+          'Content-Disposition': `attachment; filename="${run.folderName}-artifacts.tar.gz"`,
+          'Cache-Control': 'no-cache',
+        },
+      });
+    } catch (error) {
+      const { status, message } = toSshErrorDetails(error);
+      return NextResponse.json(
+        { error: true, message: `Failed to archive artifacts of ${run.folderName}: ${message}` },
+        { status }
+      );
+    }
+  } catch (error) {
+    console.error('Run artifact archive error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to archive artifacts', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
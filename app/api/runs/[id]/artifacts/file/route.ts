@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import * as path from 'path';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../../../../lib/sessionAuth';
+import { getRun } from '../../../../../lib/runRegistry';
+import { openRunArtifact, resolveArtifactPath } from '../../../../../lib/runArtifacts';
+import { toSshErrorDetails } from '../../../../../lib/sshConnection';
+
+// Download one artifact: ?path= relative to the run's isolated folder
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const requested = new URL(request.url).searchParams.get('path') || '';
+    const relativePath = resolveArtifactPath(run, requested);
+    if (!relativePath) {
+      return NextResponse.json(
+        { error: true, message: `Not an artifact of this run: ${requested}` },
+        { status: 400 }
+      );
+    }
+
+    const sessionTarget = getSessionTarget(auth.session);
+    const target = sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+    if (!target || target.host.id !== run.hostId) {
+      return NextResponse.json(
+        { error: true, message: 'This run was started on a host your current session is not connected to.' },
+        { status: 409 }
+      );
+    }
+
+    let artifact;
+    try {
+      artifact = await openRunArtifact(auth.token, target, run, relativePath);
+    } catch (error) {
+      const { status, message } = toSshErrorDetails(error);
+      return NextResponse.json(
+        { error: true, message: `Failed to open ${relativePath}: ${message}` },
+        { status: status === 500 ? 404 : status }
+      );
+    }
+
+    return new Response(artifact.stream, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(artifact.size),
+        'Content-Disposition': `attachment; filename="${path.posix.basename(relativePath).replace(/"/g, '')}"`,
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Run artifact download error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to download artifact', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../../../lib/sessionAuth';
+import { getRun } from '../../../../lib/runRegistry';
+import { getArtifactRules, listRunArtifacts } from '../../../../lib/runArtifacts';
+import { toSshErrorDetails } from '../../../../lib/sshConnection';
+
+// Files in a run's isolated folder that its recipe counts as artifacts, with sizes and
+// modification times. Download them through ./file (one) or ./archive (tar.gz).
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    if (run.status === 'queued') {
+      return NextResponse.json({ artifacts: [], truncated: false, rules: getArtifactRules(run) });
+    }
+
+    const sessionTarget = getSessionTarget(auth.session);
+    const target = sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+    if (!target || target.host.id !== run.hostId) {
+      return NextResponse.json(
+        { error: true, message: 'This run was started on a host your current session is not connected to.' },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const { artifacts, truncated } = await listRunArtifacts(auth.token, target, run);
+      return NextResponse.json({ artifacts, truncated, rules: getArtifactRules(run) });
+    } catch (error) {
+      const { status, message } = toSshErrorDetails(error);
+      return NextResponse.json(
+        { error: true, message: `Failed to list artifacts of ${run.folderName}: ${message}` },
+        { status }
+      );
+    }
+  } catch (error) {
+    console.error('Run artifacts error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to list run artifacts', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
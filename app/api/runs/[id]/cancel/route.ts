@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../../../lib/sessionAuth';
+import { finishRun, getRun, updateRun } from '../../../../lib/runRegistry';
+import { recordRunEvent } from '../../../../lib/runLogs';
+import { stopRunProcessGroup, StopOutcome } from '../../../../lib/runProcess';
+import { cancelSlurmJob } from '../../../../lib/slurm';
+import { dropQueuedRun } from '../../../../lib/runQueue';
+import { toSshErrorDetails } from '../../../../lib/sshConnection';
+
+const OUTCOME_MESSAGES: Record<StopOutcome, string> = {
+  INT: 'Run stopped after SIGINT',
+  TERM: 'Run did not respond to SIGINT and was stopped with SIGTERM',
+  KILL: 'Run did not respond to SIGINT or SIGTERM and was killed (SIGKILL)',
+  'not-running': 'No running process was found for this run',
+  unknown: 'Run could not be confirmed stopped after SIGKILL',
+};
+
+// Stop a running model run: SIGINT, then SIGTERM, then SIGKILL to its remote process group,
+// or scancel for a SLURM job. A queued run is just taken out of the queue.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    if (run.status === 'queued') {
+      console.log(`Removing queued run ${id} (${run.folderName}) for ${run.user}`);
+      const dropped = dropQueuedRun(id);
+      return NextResponse.json({ success: true, outcome: 'dequeued', message: 'Run removed from the queue', run: dropped });
+    }
+
+    if (run.status !== 'running') {
+      return NextResponse.json(
+        { error: true, message: `Run has already ended (${run.status})` },
+        { status: 409 }
+      );
+    }
+
+    const sessionTarget = getSessionTarget(auth.session);
+    const target = sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+    if (!target || target.host.id !== run.hostId) {
+      return NextResponse.json(
+        { error: true, message: 'This run was started on a host your current session is not connected to.' },
+        { status: 409 }
+      );
+    }
+
+    const slurmJobId = run.backend === 'slurm' ? run.slurm?.jobId : undefined;
+    if (slurmJobId && target.host.slurm) {
+      updateRun(id, { cancelRequestedAt: Date.now() });
+      console.log(`Cancelling SLURM job ${slurmJobId} of run ${id} for ${run.user}`);
+      try {
+        await cancelSlurmJob(auth.token, target, target.host.slurm, slurmJobId);
+      } catch (error) {
+        const { status, message } = toSshErrorDetails(error);
+        recordRunEvent(id, { type: 'error', message: `Failed to cancel SLURM job ${slurmJobId}: ${message}` });
+        return NextResponse.json(
+          { error: true, message: `Failed to cancel SLURM job ${slurmJobId}: ${message}` },
+          { status }
+        );
+      }
+
+      const message = `Cancelled SLURM job ${slurmJobId}`;
+      recordRunEvent(id, { type: 'status', message });
+      finishRun(id, null);
+      return NextResponse.json({ success: true, outcome: 'scancel', message, run: getRun(id) });
+    }
+
+    updateRun(id, { cancelRequestedAt: Date.now() });
+    recordRunEvent(id, { type: 'status', message: 'Cancel requested, sending SIGINT to the run...' });
+    console.log(`Cancelling run ${id} (${run.folderName}) for ${run.user}`);
+
+    let outcome: StopOutcome;
+    try {
+      outcome = await stopRunProcessGroup(auth.token, target, run.isolatedPath);
+    } catch (error) {
+      const { status, message } = toSshErrorDetails(error);
+      recordRunEvent(id, { type: 'error', message: `Failed to cancel run: ${message}` });
+      return NextResponse.json(
+        { error: true, message: `Failed to cancel run: ${message}` },
+        { status }
+      );
+    }
+
+    const message = OUTCOME_MESSAGES[outcome];
+    recordRunEvent(id, { type: outcome === 'unknown' ? 'error' : 'status', message });
+    if (outcome !== 'unknown') {
+      finishRun(id, null, undefined, outcome === 'not-running' ? {} : { signal: outcome });
+    }
+
+    return NextResponse.json({ success: outcome !== 'unknown', outcome, message, run: getRun(id) });
+  } catch (error) {
+    console.error('Run cancel error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to cancel run', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../../../lib/sessionAuth';
+import { getRun } from '../../../../lib/runRegistry';
+import { catchUpRunLog } from '../../../../lib/runMonitor';
+import { isRunLogComplete, iterateRunLog, readRunLogPage } from '../../../../lib/runLogs';
+import { encodeRunStreamEvent, runStreamHeaders, toRunStreamEvent } from '../../../../lib/runStreamProtocol';
+
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGE_SIZE = 5000;
+
+// A run's stored log (see runLogs.ts), readable after the run has ended and its folder
+// is gone. Returns a page of ?limit= entries from entry ?from= as JSON, or with
+// ?format=ndjson or ?format=sse the whole log as a replay of the run's events, in the
+// same format as /api/model-run (see runStreamProtocol.ts). The stored copy of a run that
+// ended while nobody was following is completed from the remote log first, when the
+// session is connected to the run's host.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = parseInt(searchParams.get('from') || '0', 10);
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10);
+    if (Number.isNaN(from) || from < 0 || Number.isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: true, message: `Invalid from or limit (1-${MAX_PAGE_SIZE})` },
+        { status: 400 }
+      );
+    }
+
+    const sessionTarget = getSessionTarget(auth.session);
+    const target = sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+    if (target && target.host.id === run.hostId && !isRunLogComplete(run.id)) {
+      await catchUpRunLog(auth.token, target, run);
+    }
+
+    const format = searchParams.get('format');
+    if (format === 'ndjson' || format === 'sse') {
+      const encoder = new TextEncoder();
+      const batches = iterateRunLog(run.id);
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const { value: entries, done } = await batches.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(entries.map(entry => encodeRunStreamEvent(toRunStreamEvent(run.id, entry), format)).join('')));
+          }
+        },
+        async cancel() {
+          await batches.return(undefined);
+        },
+      });
+      return new Response(body, { headers: runStreamHeaders(format) });
+    }
+
+    return NextResponse.json({ success: true, runId: run.id, status: run.status, ...readRunLogPage(run.id, from, limit) });
+  } catch (error) {
+    console.error('Run history error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to read run log', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
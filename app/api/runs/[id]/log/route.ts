@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../../../lib/sessionAuth';
+import { getRun } from '../../../../lib/runRegistry';
+import { attachRunLog, createRunStream } from '../../../../lib/runMonitor';
+import { followQueuedRun } from '../../../../lib/runQueue';
+import { getRunStreamFormat, runStreamHeaders } from '../../../../lib/runStreamProtocol';
+
+// Reattach to a run's events: streams them in the same format as /api/model-run (see
+// runStreamProtocol.ts) after event ?after= (or the Last-Event-ID header; default 0, from
+// the start), following the run until it ends. A queued run's stream waits for it to
+// start. A run that has ended can be replayed without a connection to its host.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const after = parseInt(new URL(request.url).searchParams.get('after') || request.headers.get('last-event-id') || '0', 10);
+    if (Number.isNaN(after) || after < 0) {
+      return NextResponse.json(
+        { error: true, message: 'Invalid after' },
+        { status: 400 }
+      );
+    }
+
+    const sessionTarget = getSessionTarget(auth.session);
+    const target = sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+    const connected = target && target.host.id === run.hostId;
+    if (!connected && (run.status === 'queued' || run.status === 'running')) {
+      return NextResponse.json(
+        { error: true, message: 'This run was started on a host your current session is not connected to.' },
+        { status: 409 }
+      );
+    }
+
+    const format = getRunStreamFormat(request);
+    const stream = createRunStream(run.id, {
+      format,
+      afterSeq: after,
+      notice: {
+        type: 'status',
+        message: after > 0
+          ? `Reattached to ${run.folderName} after event ${after}`
+          : `Attached to ${run.folderName} (${run.status})`
+      },
+    });
+    if (run.status === 'queued') {
+      followQueuedRun(run.id, stream);
+    } else if (connected) {
+      attachRunLog(stream, auth.token, target, run);
+    } else {
+      stream.close();
+    }
+
+    return new Response(stream.readable, { headers: runStreamHeaders(format) });
+  } catch (error) {
+    console.error('Run log error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to open run log', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
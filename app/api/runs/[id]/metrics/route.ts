@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../../../lib/sessionAuth';
+import { getRun } from '../../../../lib/runRegistry';
+
+// Metric series saved with a run: { metrics: { <name>: [[step, value], ...] } }. A running
+// run's series are saved every few seconds; its stream carries the latest values.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, runId: run.id, metrics: run.metrics || {} });
+  } catch (error) {
+    console.error('Run metrics error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to read run metrics', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../../../lib/sessionAuth';
+import { getRun } from '../../../../lib/runRegistry';
+import { getQueuePositions, moveQueuedRun } from '../../../../lib/runQueue';
+
+// Reorder a user's own queued runs: { "direction": "up" | "down" } swaps the run with the
+// user's previous or next queued run
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    if (run.status !== 'queued') {
+      return NextResponse.json(
+        { error: true, message: `Run is not queued (${run.status})` },
+        { status: 409 }
+      );
+    }
+
+    const { direction } = await request.json().catch(() => ({}));
+    if (direction !== 'up' && direction !== 'down') {
+      return NextResponse.json(
+        { error: true, message: 'direction must be "up" or "down"' },
+        { status: 400 }
+      );
+    }
+
+    const moved = moveQueuedRun(id, direction);
+    return NextResponse.json({ success: true, moved, queuePosition: getQueuePositions().get(id) });
+  } catch (error) {
+    console.error('Run move error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to move run', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../../../lib/sessionAuth';
+import { getRun, updateRun } from '../../../../lib/runRegistry';
+
+// Pin or unpin a run: { "pinned": true | false }. The isolated folders of pinned runs are
+// kept by the workspace retention policy and can't be deleted until unpinned.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = getRun(id);
+    if (!run || run.user !== auth.session.hostname) {
+      return NextResponse.json(
+        { error: true, message: `Run not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const { pinned } = await request.json().catch(() => ({}));
+    if (typeof pinned !== 'boolean') {
+      return NextResponse.json(
+        { error: true, message: 'pinned must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    updateRun(id, { pinned });
+    return NextResponse.json({ success: true, pinned });
+  } catch (error) {
+    console.error('Run pin error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to pin run', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../../lib/sessionAuth';
+import { getRun } from '../../../lib/runRegistry';
+
+// A single run record; other users' runs are reported as not found
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = getRequestSession(request);
+  if (!auth) {
+    return NextResponse.json(
+      { error: true, message: 'Session expired or invalid. Please log in again.' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+  const run = getRun(id);
+  if (!run || run.user !== auth.session.hostname) {
+    return NextResponse.json(
+      { error: true, message: `Run not found: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ run });
+}
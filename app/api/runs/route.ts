@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../lib/sessionAuth';
+import { listRuns } from '../../lib/runRegistry';
+import { refreshRunStatus } from '../../lib/runMonitor';
+import { getQueuePositions } from '../../lib/runQueue';
+import { startWorkspaceCleanup } from '../../lib/runWorkspaces';
+import { startMlflowRunTracking } from '../../lib/mlflowRuns';
+
+// Runs launched by the logged-in user, newest first. Runs still marked as running are
+// checked on the remote host first, so runs that ended while nobody was watching (or
+// while the server was down) show their real outcome. Queued runs come with their
+// queuePosition (1-based, across all users' queued runs). Metric series are left out
+// for their names (metricNames); /api/runs/[id]/metrics has the points.
+export async function GET(request: Request) {
+  const auth = getRequestSession(request);
+  if (!auth) {
+    return NextResponse.json(
+      { error: true, message: 'Session expired or invalid. Please log in again.' },
+      { status: 401 }
+    );
+  }
+
+  // Every user opens their runs after logging in, including after a server restart
+  startWorkspaceCleanup();
+  startMlflowRunTracking();
+
+  const sessionTarget = getSessionTarget(auth.session);
+  const runs = listRuns(auth.session.hostname);
+  const refreshed = await Promise.all(runs.map(async (run) => {
+    const target = run.status === 'running' && sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+    if (!target || target.host.id !== run.hostId) {
+      return run;
+    }
+    try {
+      return await refreshRunStatus(auth.token, target, run);
+    } catch (error) {
+      console.error(`Could not check run ${run.id}:`, error);
+      return run;
+    }
+  }));
+
+  const queuePositions = getQueuePositions();
+  return NextResponse.json({
+    runs: refreshed.map(({ metrics, ...run }) => ({
+      ...run,
+      ...(metrics && { metricNames: Object.keys(metrics) }),
+      ...(run.status === 'queued' && { queuePosition: queuePositions.get(run.id) }),
+    }))
+  });
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../../lib/sessionAuth';
+import { listRuns } from '../../../lib/runRegistry';
+import { createLogMatcher, MAX_MATCHES, RunLogMatch, searchRunLogFile } from '../../../lib/runLogs';
+
+// Search the stored logs of the logged-in user's runs: ?q= is plain text (case-insensitive)
+// or, with ?regex=1, a regular expression in RE2 syntax. Each match comes with ?context=
+// lines (default 2) before and after it. Runs are searched newest first until MAX_MATCHES.
+export async function GET(request: Request) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q') || '';
+    if (!query) {
+      return NextResponse.json(
+        { error: true, message: 'Missing required parameter (q)' },
+        { status: 400 }
+      );
+    }
+
+    let matcher: (line: string) => boolean;
+    try {
+      matcher = createLogMatcher(query, searchParams.get('regex') === '1');
+    } catch (error) {
+      return NextResponse.json(
+        { error: true, message: `Invalid search: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+    const context = parseInt(searchParams.get('context') || '2', 10);
+
+    const results: { runId: string; folderName: string; runName: string; status: string; startedAt: number; matches: RunLogMatch[] }[] = [];
+    let total = 0;
+    for (const run of listRuns(auth.session.hostname)) {
+      if (total >= MAX_MATCHES) {
+        break;
+      }
+      const matches = await searchRunLogFile(run.id, matcher, Number.isNaN(context) ? 2 : context);
+      if (matches.length) {
+        const kept = matches.slice(0, MAX_MATCHES - total);
+        total += kept.length;
+        results.push({ runId: run.id, folderName: run.folderName, runName: run.runName, status: run.status, startedAt: run.startedAt, matches: kept });
+      }
+    }
+
+    return NextResponse.json({ success: true, query, results, truncated: total >= MAX_MATCHES });
+  } catch (error) {
+    console.error('Run log search error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to search run logs', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getSession, deleteSession } from '../../lib/sessionStore';
+import { getHostProfile, resolveHostPaths, toPublicHostProfile } from '../../lib/hostProfiles';
+import { closePooledClient } from '../../lib/sshPool';
 
 export async function POST(request: Request) {
   try {
@@ -30,12 +32,27 @@ export async function POST(request: Request) {
       );
     }
     
+    // Sessions for a host profile that has since been removed from the config are dead
+    const host = getHostProfile(session.hostId);
+    if (!host) {
+      deleteSession(sessionToken);
+      return NextResponse.json(
+        { error: true, message: 'Host profile is no longer configured' },
+        { status: 401 }
+      );
+    }
+    
     // Return session data 
+    const publicHost = toPublicHostProfile(host);
     return NextResponse.json({
       success: true,
       sessionData: {
-        ip: session.ip,
+        hostId: host.id,
+        hostLabel: host.label,
         hostname: session.hostname,
+        paths: resolveHostPaths(host, session.hostname),
+        computeNodes: publicHost.computeNodes,
+        slurm: publicHost.slurm,
         expiresAt: session.expiresAt,
         isAuthenticated: true
       }
@@ -56,6 +73,7 @@ export async function DELETE(request: Request) {
     
     if (sessionToken) {
       deleteSession(sessionToken);
+      closePooledClient(sessionToken);
     }
     
     return NextResponse.json({ success: true });
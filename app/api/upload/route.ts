@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server';
-import { Client } from 'ssh2';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { getRequestSession, getSessionTarget, withComputeNode } from '../../lib/sessionAuth';
+import { toSshErrorDetails } from '../../lib/sshConnection';
+import { getPooledSftp } from '../../lib/sshPool';
+import { resolveHostPaths } from '../../lib/hostProfiles';
+import { getFileRoot, resolveRemotePath, toRemoteFileErrorDetails } from '../../lib/remoteFiles';
 
 // Temporary directory for storing uploaded files
 const TEMP_DIR = path.join(os.tmpdir(), 'sftp-uploads');
@@ -17,34 +21,54 @@ export async function POST(request: Request) {
     // Get authentication details and upload parameters from request
     const formData = await request.formData();
     const file = formData.get('file') as File;
-    const remoteDir = formData.get('remoteDir') as string || '/tmp';
+    const requestedDir = formData.get('remoteDir') as string || '';
+    const nodeId = formData.get('nodeId') as string || '';
     
-    // Extract connection details from the connectionDetails JSON string
-    let ip, hostname, password;
-    const connectionDetailsStr = formData.get('connectionDetails') as string;
+    // Resolve SSH credentials from the server-side session
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
     
-    if (connectionDetailsStr) {
-      try {
-        const connectionDetails = JSON.parse(connectionDetailsStr);
-        ip = connectionDetails.ip;
-        hostname = connectionDetails.hostname;
-        password = connectionDetails.password;
-        
-      } catch (parseError) {
-        console.error('Failed to parse connectionDetails JSON:', parseError);
-      }
+    const sessionTarget = getSessionTarget(auth.session);
+    if (!sessionTarget) {
+      return NextResponse.json(
+        { error: true, message: 'Host profile for this session is no longer configured. Please log in again.' },
+        { status: 401 }
+      );
     }
     
+    // Optionally upload to a compute node behind the login host
+    const target = withComputeNode(sessionTarget, nodeId);
+    if (!target) {
+      return NextResponse.json(
+        { error: true, message: `Unknown compute node: ${nodeId}` },
+        { status: 400 }
+      );
+    }
+    
+    // Uploads stay inside the file root, the same folder tree the file browser shows
+    let remoteDir: string;
+    try {
+      remoteDir = resolveRemotePath(getFileRoot(target), requestedDir || resolveHostPaths(target.host, target.username).upload);
+    } catch (error) {
+      const { status, message } = toRemoteFileErrorDetails(error);
+      return NextResponse.json({ error: true, message }, { status });
+    }
+
     // Check if required parameters are provided
-    if (!file || !ip || !hostname || !password) {
+    if (!file) {
       return NextResponse.json(
-        { error: true, message: 'Missing required parameters (file, ip, hostname, password)' },
+        { error: true, message: 'Missing required parameter (file)' },
         { status: 400 }
       );
     }
 
-    // Get file name and extension
-    const fileName = file.name;
+    // Get file name and extension (without any folders the browser sent along)
+    const fileName = path.posix.basename(file.name);
     const remotePath = path.posix.join(remoteDir, fileName);
 
     // Create a temporary local file
@@ -54,19 +78,23 @@ export async function POST(request: Request) {
     const fileBuffer = await file.arrayBuffer();
     fs.writeFileSync(localPath, Buffer.from(fileBuffer));
 
-    // Create an SSH connection and upload the file via SFTP
+    // Upload the file over the session's pooled SSH connection
     return new Promise<NextResponse>((resolve) => {
-      const sshClient = new Client();
-      
-      // Set a timeout for the connection
-      const timeoutId = setTimeout(() => {
-        sshClient.end();
+      let finished = false;
+      const finish = (response: NextResponse) => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timeoutId);
         // Cleanup the temporary file
         if (fs.existsSync(localPath)) {
           fs.unlinkSync(localPath);
         }
-        
-        resolve(
+        resolve(response);
+      };
+      
+      // Set a timeout for the upload
+      const timeoutId = setTimeout(() => {
+        finish(
           NextResponse.json(
             { error: true, message: 'SFTP upload timeout' },
             { status: 500 }
@@ -74,109 +102,43 @@ export async function POST(request: Request) {
         );
       }, 30000); // 30 seconds timeout
       
-      sshClient.on('ready', () => {
-        console.log('SSH connection successful, starting SFTP session');
-        // Start SFTP session
-        sshClient.sftp((err, sftp) => {
-          if (err) {
-            clearTimeout(timeoutId);
-            sshClient.end();
-            
-            // Cleanup the temporary file
-            if (fs.existsSync(localPath)) {
-              fs.unlinkSync(localPath);
-            }
-            
-            console.error('SFTP session error:', err.message);
-            resolve(
+      getPooledSftp(auth.token, target).then((sftp) => {
+        console.log(`Starting file upload to ${remotePath}`);
+        // Upload the file using fastPut
+        sftp.fastPut(localPath, remotePath, (uploadErr) => {
+          if (uploadErr) {
+            console.error('File upload error:', uploadErr.message);
+            finish(
               NextResponse.json(
-                { error: true, message: 'Failed to start SFTP session', details: err.message },
+                { error: true, message: 'Failed to upload file', details: uploadErr.message },
                 { status: 500 }
               )
             );
             return;
           }
 
-          console.log(`Starting file upload to ${remotePath}`);
-          // Upload the file using fastPut
-          sftp.fastPut(localPath, remotePath, (uploadErr) => {
-            clearTimeout(timeoutId);
-            
-            // Cleanup the temporary file
-            if (fs.existsSync(localPath)) {
-              fs.unlinkSync(localPath);
-            }
-            
-            if (uploadErr) {
-              console.error('File upload error:', uploadErr.message);
-              sshClient.end();
-              resolve(
-                NextResponse.json(
-                  { error: true, message: 'Failed to upload file', details: uploadErr.message },
-                  { status: 500 }
-                )
-              );
-              return;
-            }
-
-            // Successfully uploaded
-            console.log(`File successfully uploaded to ${remotePath}`);
-            sshClient.end();
-            resolve(
-              NextResponse.json({
-                success: true,
-                message: 'File uploaded successfully',
-                fileName,
-                remotePath
-              })
-            );
-          });
+          // Successfully uploaded
+          console.log(`File successfully uploaded to ${remotePath}`);
+          finish(
+            NextResponse.json({
+              success: true,
+              message: 'File uploaded successfully',
+              fileName,
+              remotePath
+            })
+          );
         });
-      }).on('error', (err) => {
-        clearTimeout(timeoutId);
-        
-        // Cleanup the temporary file
-        if (fs.existsSync(localPath)) {
-          fs.unlinkSync(localPath);
-        }
-        
-        // Handle connection errors
-        let statusMessage = err.message;
-        let statusCode = 500;
-        
-        if (err.message.includes('authentication methods failed')) {
-          statusMessage = 'Invalid credentials. Please check your username and password.';
-          statusCode = 401;
-          console.error('SSH authentication failed with provided credentials. Error:', err.message);
-        } else if (err.message.includes('ECONNREFUSED')) {
-          statusMessage = `Connection refused. Please check if SSH is running on ${ip}:22.`;
-        }
+      }).catch((error) => {
+        // Handle connection errors (including refused host keys)
+        const { status, message, code, hostKey, originalError } = toSshErrorDetails(error);
+        console.error('SSH connection error during upload:', originalError);
         
-        resolve(
+        finish(
           NextResponse.json(
-            { error: true, message: statusMessage, details: err.message },
-            { status: statusCode }
+            { error: true, message, code, hostKey, details: originalError },
+            { status }
           )
         );
-      }).on('keyboard-interactive', (name, instructions, lang, prompts, finish) => {
-        // If we have a password and this is a keyboard-interactive fallback
-        if (password && prompts.length === 1) {
-          finish([password]);
-        } else {
-          finish([]);
-        }
-      });
-
-      // Connect to the server with correct configuration
-      sshClient.connect({
-        host: ip,
-        port: 22,
-        username: hostname,
-        password: password,
-        readyTimeout: 10000,
-        keepaliveInterval: 2000,
-        keepaliveCountMax: 3,
-        tryKeyboard: true  // Enable keyboard-interactive authentication as fallback
       });
     });
   } catch (error) {
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget } from '../../../lib/sessionAuth';
+import { applyRetention } from '../../../lib/runWorkspaces';
+import { toSshErrorDetails } from '../../../lib/sshConnection';
+
+// Apply the retention policy to the user's folders now. It is a dry run that only lists
+// what would be deleted unless the body says { "dryRun": false }.
+export async function POST(request: Request) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { dryRun } = await request.json().catch(() => ({}));
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+      return NextResponse.json(
+        { error: true, message: 'dryRun must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const target = getSessionTarget(auth.session);
+    if (!target) {
+      return NextResponse.json(
+        { error: true, message: 'Host profile for this session is no longer configured. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      return NextResponse.json(await applyRetention(auth.token, target, dryRun !== false));
+    } catch (error) {
+      const { status, message } = toSshErrorDetails(error);
+      return NextResponse.json(
+        { error: true, message: `Failed to apply the retention policy: ${message}` },
+        { status }
+      );
+    }
+  } catch (error) {
+    console.error('Workspace cleanup error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to apply the retention policy', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
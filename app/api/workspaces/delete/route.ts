@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget } from '../../../lib/sessionAuth';
+import { deleteWorkspaceFolders } from '../../../lib/runWorkspaces';
+import { toSshErrorDetails } from '../../../lib/sshConnection';
+
+// Delete isolated run folders: { "paths": [...] } as listed by /api/workspaces. Folders
+// that could not be deleted come back in `failed` with the reason.
+export async function POST(request: Request) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const { paths } = await request.json().catch(() => ({}));
+    if (!Array.isArray(paths) || !paths.length || paths.some(item => typeof item !== 'string')) {
+      return NextResponse.json(
+        { error: true, message: 'paths must be a list of workspace folders' },
+        { status: 400 }
+      );
+    }
+
+    const target = getSessionTarget(auth.session);
+    if (!target) {
+      return NextResponse.json(
+        { error: true, message: 'Host profile for this session is no longer configured. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const { deleted, failed } = await deleteWorkspaceFolders(auth.token, target, paths);
+      return NextResponse.json({ success: failed.length === 0, deleted, failed });
+    } catch (error) {
+      const { status, message } = toSshErrorDetails(error);
+      return NextResponse.json(
+        { error: true, message: `Failed to delete workspace folders: ${message}` },
+        { status }
+      );
+    }
+  } catch (error) {
+    console.error('Workspace delete error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to delete workspace folders', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, getSessionTarget } from '../../lib/sessionAuth';
+import { getServerConfig } from '../../lib/serverConfig';
+import { getWorkspaceRoots, listWorkspaceFolders, startWorkspaceCleanup } from '../../lib/runWorkspaces';
+import { toSshErrorDetails } from '../../lib/sshConnection';
+
+// The logged-in user's isolated run folders, newest first, with their sizes and runs.
+// Delete them through ./delete; ./cleanup previews or applies the retention policy.
+export async function GET(request: Request) {
+  try {
+    const auth = getRequestSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: true, message: 'Session expired or invalid. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const target = getSessionTarget(auth.session);
+    if (!target) {
+      return NextResponse.json(
+        { error: true, message: 'Host profile for this session is no longer configured. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    startWorkspaceCleanup();
+    try {
+      const folders = await listWorkspaceFolders(auth.token, target);
+      return NextResponse.json({
+        folders,
+        roots: getWorkspaceRoots(target),
+        retention: getServerConfig().workspaces.retention,
+      });
+    } catch (error) {
+      const { status, message } = toSshErrorDetails(error);
+      return NextResponse.json(
+        { error: true, message: `Failed to list workspaces: ${message}` },
+        { status }
+      );
+    }
+  } catch (error) {
+    console.error('Workspace listing error:', error);
+    return NextResponse.json(
+      { error: true, message: 'Failed to list workspaces', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
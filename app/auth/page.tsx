@@ -1,79 +1,241 @@
 'use client'
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import Image from 'next/image'
 import { useAuth } from '../context/AuthContext'
 
+type AuthMethod = 'password' | 'privateKey' | 'agent'
+
+const authMethodOptions: { value: AuthMethod; label: string }[] = [
+  { value: 'password', label: 'Password' },
+  { value: 'privateKey', label: 'Private Key' },
+  { value: 'agent', label: 'SSH Agent' },
+]
+
+type HostKeyProblem = {
+  code: 'HOST_KEY_MISMATCH' | 'HOST_KEY_UNTRUSTED'
+  message: string
+  host: string
+  fingerprint: string
+  expectedFingerprint?: string
+}
+
+type Enrollment =
+  | { stage: 'required' }
+  | { stage: 'scan'; qrCode: string; otpauthUri: string; secret: string; recoveryCodes: string[] }
+
+type HostOption = {
+  id: string
+  label: string
+  address: string
+  port: number
+  // The host has an ssh-agent configured on the server
+  sshAgent: boolean
+}
+
 export default function AuthPage() {
-  // Hardcoded random IP 
-  const hardcodedIp = '10.250.0.22'
-  
+  // Host profiles come from the server config
+  const [hosts, setHosts] = useState<HostOption[]>([])
+  const [hostId, setHostId] = useState('')
   const [hostname, setHostname] = useState('')
+  const [authMethod, setAuthMethod] = useState<AuthMethod>('password')
   const [password, setPassword] = useState('')
-  const [pin, setPin] = useState('')
+  const [privateKey, setPrivateKey] = useState('')
+  const [privateKeyName, setPrivateKeyName] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [otp, setOtp] = useState('')
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [enrollmentCode, setEnrollmentCode] = useState('')
+  const [notice, setNotice] = useState('')
   const [error, setError] = useState('')
+  const [hostKeyProblem, setHostKeyProblem] = useState<HostKeyProblem | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  // Set while the server refuses logins after repeated failures
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null)
+  const [retrySeconds, setRetrySeconds] = useState(0)
   const router = useRouter()
-  const { setConnectionDetails } = useAuth()
+  const { connectionDetails, setConnectionDetails, isRestoringSession } = useAuth()
 
-  // Hardcoded 5-digit PIN
-  const correctPin = '13425'
+  // Skip the login form if a stored session is still alive on the server
+  useEffect(() => {
+    if (!isRestoringSession && connectionDetails.isAuthenticated) {
+      router.push('/')
+    }
+  }, [isRestoringSession, connectionDetails.isAuthenticated, router])
 
-  // Check for existing session on component mount
+  // Load the available host profiles, defaulting to the first one
   useEffect(() => {
-    const savedAuth = localStorage.getItem('cairAuth')
-    if (savedAuth) {
-      try {
-        const authData = JSON.parse(savedAuth)
-        const now = new Date().getTime()
-        
-        // Check if session is still valid (30 days)
-        if (authData.expiresAt && now < authData.expiresAt && authData.connectionDetails) {
-          setConnectionDetails(authData.connectionDetails)
-          router.push('/')
-          return
-        } else {
-          // Session expired, clear it
-          localStorage.removeItem('cairAuth')
+    fetch('/api/auth')
+      .then(res => res.json())
+      .then(data => {
+        const hostList: HostOption[] = data.hosts || []
+        setHosts(hostList)
+        if (hostList.length > 0) {
+          setHostId(current => current || hostList[0].id)
         }
-      } catch (error) {
-        // Invalid stored data, clear it
-        localStorage.removeItem('cairAuth')
+      })
+      .catch(err => {
+        console.error('Failed to load host profiles:', err)
+        setError('Could not load the list of hosts. Please refresh the page.')
+      })
+  }, [])
+
+  // Count down until logins are allowed again
+  useEffect(() => {
+    if (!lockedUntil) return
+
+    const tick = () => {
+      const remaining = Math.ceil((lockedUntil - Date.now()) / 1000)
+      if (remaining <= 0) {
+        setLockedUntil(null)
+        setRetrySeconds(0)
+      } else {
+        setRetrySeconds(remaining)
       }
     }
-  }, [router, setConnectionDetails])
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [lockedUntil])
+
+  const isLocked = lockedUntil !== null
+
+  // SSH Agent is only offered for hosts with an agent configured on the server
+  const agentAvailable = Boolean(hosts.find(host => host.id === hostId)?.sshAgent)
+  const availableMethods = authMethodOptions.filter(option => option.value !== 'agent' || agentAvailable)
+
+  useEffect(() => {
+    if (authMethod === 'agent' && !agentAvailable) {
+      setAuthMethod('password')
+    }
+  }, [authMethod, agentAvailable])
+
+  // Either a 6-digit authenticator code or a recovery code like "k7mzq-3xh9p"
+  function handleOtpChange(value: string) {
+    setOtp(value.replace(/\s/g, '').slice(0, 11))
+  }
+
+  // Read the selected key file as text; it is only sent once, to /api/auth
+  function handlePrivateKeyChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      setPrivateKey(event.target?.result as string)
+      setPrivateKeyName(file.name)
+    }
+    reader.readAsText(file)
+  }
+
+  // Credential fields for the chosen authentication method
+  function credentialPayload() {
+    return {
+      hostId,
+      hostname,
+      authMethod,
+      ...(authMethod === 'password' && { password }),
+      ...(authMethod === 'privateKey' && { privateKey, passphrase })
+    }
+  }
+
+  // Report a failed response, giving host key problems and lockouts their own warning
+  function showFailure(data: { code?: string; message?: string; hostKey?: HostKeyProblem; originalError?: string; retryAfter?: number }) {
+    if (data.code === 'LOGIN_LOCKED') {
+      setLockedUntil(Date.now() + (data.retryAfter || 60) * 1000)
+    } else if (data.code === 'HOST_KEY_MISMATCH' || data.code === 'HOST_KEY_UNTRUSTED') {
+      setHostKeyProblem({ ...(data.hostKey as HostKeyProblem), code: data.code, message: data.message || '' })
+    } else {
+      setError(data.message || 'Authentication failed')
+      console.error('Server error:', data.originalError || data.message)
+    }
+  }
+
+  // First enrollment step: the server checks the SSH login, then issues a new secret
+  async function handleStartEnrollment() {
+    setError('')
+    setHostKeyProblem(null)
+    setIsLoading(true)
+
+    try {
+      const res = await fetch('/api/auth/totp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'start', ...credentialPayload() }),
+      })
+      const data = await res.json()
+
+      if (res.ok) {
+        setEnrollment({
+          stage: 'scan',
+          qrCode: data.qrCode,
+          otpauthUri: data.otpauthUri,
+          secret: data.secret,
+          recoveryCodes: data.recoveryCodes
+        })
+      } else {
+        showFailure(data)
+      }
+    } catch (err) {
+      setError('Connection error. Please try again.')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Second enrollment step: prove the authenticator app produces valid codes
+  async function handleConfirmEnrollment() {
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const res = await fetch('/api/auth/totp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'confirm', hostname, code: enrollmentCode }),
+      })
+      const data = await res.json()
 
-  function handlePinChange(value: string) {
-    // Only allow digits and limit to 5 characters
-    const digitsOnly = value.replace(/\D/g, '').slice(0, 5)
-    setPin(digitsOnly)
+      if (res.ok) {
+        setEnrollment(null)
+        setEnrollmentCode('')
+        setNotice('Authenticator set up. Enter the next code it shows to log in.')
+      } else if (data.code === 'LOGIN_LOCKED') {
+        showFailure(data)
+      } else {
+        setError(data.message || 'Could not confirm the code')
+      }
+    } catch (err) {
+      setError('Connection error. Please try again.')
+      console.error(err)
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
     setError('')
+    setNotice('')
+    setHostKeyProblem(null)
     setIsLoading(true)
     
-    // Validate credentials
-    if (!password) {
+    // Validate credentials for the chosen method
+    if (authMethod === 'password' && !password) {
       setError('Please provide a password')
       setIsLoading(false)
       return
     }
 
-    if (!pin) {
-      setError('Please provide a 5-digit PIN')
+    if (authMethod === 'privateKey' && !privateKey) {
+      setError('Please select a private key file')
       setIsLoading(false)
       return
     }
 
-    if (pin.length !== 5) {
-      setError('PIN must be exactly 5 digits')
-      setIsLoading(false)
-      return
-    }
-
-    if (pin !== correctPin) {
-      setError('Incorrect PIN')
+    if (!otp) {
+      setError('Please enter the code from your authenticator app')
       setIsLoading(false)
       return
     }
@@ -82,37 +244,25 @@ export default function AuthPage() {
       const res = await fetch('/api/auth', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          ip: hardcodedIp, 
-          hostname, 
-          password
-        }),
+        body: JSON.stringify({ ...credentialPayload(), otp }),
       })
       
       const data = await res.json()
       
       if (res.ok) {
-        // Save the connection details to context
-        const connectionDetails = {
-          ip: hardcodedIp,
-          hostname,
-          password,
+        // Only the server-issued session token is kept in the browser
+        setConnectionDetails({
+          ...data.sessionData,
+          sessionToken: data.sessionToken,
           isAuthenticated: true
-        }
-        
-        setConnectionDetails(connectionDetails)
-        
-        // Save to localStorage with expiration (30 days)
-        const expiresAt = new Date().getTime() + (30 * 24 * 60 * 60 * 1000)
-        localStorage.setItem('cairAuth', JSON.stringify({
-          connectionDetails,
-          expiresAt
-        }))
+        })
         
         router.push('/')
+      } else if (data.code === 'OTP_ENROLLMENT_REQUIRED') {
+        // No authenticator yet - offer to set one up with the credentials just entered
+        setEnrollment({ stage: 'required' })
       } else {
-        setError(data.message || 'Authentication failed')
-        console.error('Server error:', data.originalError || data.message)
+        showFailure(data)
       }
     } catch (err) {
       setError('Connection error. Please try again.')
@@ -136,8 +286,56 @@ export default function AuthPage() {
               <p className="text-red-400 text-sm">{error}</p>
             </div>
           )}
+
+          {isLocked && (
+            <div className="mb-6 p-3 bg-orange-900/40 border border-orange-600 rounded-md">
+              <p className="text-orange-300 text-sm font-medium">Too many failed attempts</p>
+              <p className="text-orange-200 text-sm mt-1">
+                Logins are temporarily locked. You can try again in {retrySeconds} second{retrySeconds === 1 ? '' : 's'}.
+              </p>
+            </div>
+          )}
+
+          {hostKeyProblem?.code === 'HOST_KEY_MISMATCH' && (
+            <div className="mb-6 p-4 bg-red-950 border-2 border-red-500 rounded-md">
+              <p className="text-red-300 font-bold text-sm mb-2">
+                WARNING: HOST IDENTIFICATION HAS CHANGED - POSSIBLE MAN-IN-THE-MIDDLE ATTACK
+              </p>
+              <p className="text-red-400 text-sm mb-3">{hostKeyProblem.message}</p>
+              <div className="text-xs font-mono text-red-300 space-y-1 break-all">
+                <p>Host: {hostKeyProblem.host}</p>
+                <p>Expected: {hostKeyProblem.expectedFingerprint}</p>
+                <p>Received: {hostKeyProblem.fingerprint}</p>
+              </div>
+            </div>
+          )}
+
+          {hostKeyProblem?.code === 'HOST_KEY_UNTRUSTED' && (
+            <div className="mb-6 p-3 bg-yellow-900/30 border border-yellow-700 rounded-md">
+              <p className="text-yellow-400 text-sm mb-2">{hostKeyProblem.message}</p>
+              <p className="text-xs font-mono text-yellow-300 break-all">
+                {hostKeyProblem.host} {hostKeyProblem.fingerprint}
+              </p>
+            </div>
+          )}
           
           <div className="space-y-6">
+            <label className="block">
+              <span className="text-gray-300 text-sm font-medium block mb-1">Host</span>
+              <select
+                value={hostId}
+                onChange={e => setHostId(e.target.value)}
+                required
+                className="w-full px-4 py-3 rounded-md bg-gray-700 border border-gray-600 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {hosts.map(host => (
+                  <option key={host.id} value={host.id}>
+                    {host.label} ({host.address}{host.port !== 22 ? `:${host.port}` : ''})
+                  </option>
+                ))}
+              </select>
+            </label>
+
             <label className="block">
               <span className="text-gray-300 text-sm font-medium block mb-1">Host Name</span>
               <input
@@ -150,37 +348,158 @@ export default function AuthPage() {
               />
             </label>
             
-            <label className="block">
-              <span className="text-gray-300 text-sm font-medium block mb-1">Password</span>
-              <input
-                type="password"
-                value={password}
-                onChange={e => setPassword(e.target.value)}
-                required
-                className="w-full px-4 py-3 rounded-md bg-gray-700 border border-gray-600 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                placeholder="Enter password"
-              />
-            </label>
+            <div>
+              <span className="text-gray-300 text-sm font-medium block mb-1">Authentication</span>
+              <div className={`grid ${availableMethods.length === 3 ? 'grid-cols-3' : 'grid-cols-2'} gap-1 p-1 rounded-md bg-gray-700 border border-gray-600`}>
+                {availableMethods.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setAuthMethod(option.value)}
+                    className={`py-2 text-sm rounded transition duration-150 ease-in-out ${
+                      authMethod === option.value
+                        ? 'bg-indigo-600 text-white'
+                        : 'text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {authMethod === 'password' && (
+              <label className="block">
+                <span className="text-gray-300 text-sm font-medium block mb-1">Password</span>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 rounded-md bg-gray-700 border border-gray-600 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Enter password"
+                />
+              </label>
+            )}
+
+            {authMethod === 'privateKey' && (
+              <>
+                <label className="block">
+                  <span className="text-gray-300 text-sm font-medium block mb-1">Private Key</span>
+                  <input
+                    type="file"
+                    onChange={handlePrivateKeyChange}
+                    className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-gray-600 file:text-white hover:file:bg-gray-500"
+                  />
+                  {privateKeyName && (
+                    <span className="text-xs text-gray-400 mt-1 block">Loaded: {privateKeyName}</span>
+                  )}
+                </label>
+
+                <label className="block">
+                  <span className="text-gray-300 text-sm font-medium block mb-1">Passphrase</span>
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={e => setPassphrase(e.target.value)}
+                    className="w-full px-4 py-3 rounded-md bg-gray-700 border border-gray-600 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    placeholder="Leave empty if the key is not encrypted"
+                  />
+                </label>
+              </>
+            )}
+
+            {authMethod === 'agent' && (
+              <p className="text-gray-400 text-sm">
+                Logs in with the keys of the ssh-agent configured for this host on the server.
+              </p>
+            )}
+
+            {enrollment?.stage === 'required' && (
+              <div className="p-3 bg-blue-900/30 border border-blue-700 rounded-md">
+                <p className="text-blue-300 text-sm mb-3">
+                  This account has no authenticator app set up yet. Set one up now using the credentials above.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleStartEnrollment}
+                  disabled={isLoading || isLocked || !hostname}
+                  className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoading ? 'Checking credentials...' : 'Set up authenticator'}
+                </button>
+              </div>
+            )}
+
+            {enrollment?.stage === 'scan' && (
+              <div className="p-4 bg-gray-900 border border-gray-600 rounded-md space-y-4">
+                <p className="text-gray-300 text-sm">
+                  Scan this QR code with your authenticator app, or enter the key manually.
+                </p>
+                <Image src={enrollment.qrCode} alt="Authenticator QR code" width={192} height={192} unoptimized className="mx-auto w-48 h-48 bg-white p-2 rounded" />
+                <p className="text-xs font-mono text-gray-400 break-all text-center">{enrollment.secret}</p>
+
+                <div>
+                  <p className="text-yellow-400 text-sm font-medium mb-1">Recovery codes</p>
+                  <p className="text-xs text-gray-400 mb-2">
+                    Each code can be used once instead of an authenticator code. Store them somewhere safe - they are not shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-1 font-mono text-sm text-gray-200 bg-gray-800 p-2 rounded">
+                    {enrollment.recoveryCodes.map(code => (
+                      <span key={code}>{code}</span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={enrollmentCode}
+                    onChange={e => setEnrollmentCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    className="flex-1 px-4 py-2 text-center tracking-widest rounded-md bg-gray-700 border border-gray-600 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    placeholder="123456"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleConfirmEnrollment}
+                    disabled={isLoading || isLocked || enrollmentCode.length !== 6}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Confirm
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {notice && (
+              <div className="p-3 bg-green-900/30 border border-green-700 rounded-md">
+                <p className="text-green-400 text-sm">{notice}</p>
+              </div>
+            )}
 
             <label className="block">
-              <span className="text-gray-300 text-sm font-medium block mb-1"> PIN</span>
+              <span className="text-gray-300 text-sm font-medium block mb-1">Authenticator Code</span>
               <input
-                type="password"
-                value={pin}
-                onChange={e => handlePinChange(e.target.value)}
-                maxLength={5}
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={otp}
+                onChange={e => handleOtpChange(e.target.value)}
+                maxLength={11}
                 required
                 className="w-full px-4 py-3 text-center text-lg tracking-widest rounded-md bg-gray-700 border border-gray-600 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                placeholder="•••••"
+                placeholder="123456"
               />
+              <span className="text-xs text-gray-500 mt-1 block">Lost your device? Enter one of your recovery codes instead.</span>
             </label>
             
             <button
               type="submit"
-              disabled={isLoading || pin.length !== 5}
+              disabled={isLoading || isLocked || !hostId || !otp}
               className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-md shadow-sm transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 focus:ring-offset-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? 'Connecting...' : 'Connect to Host'}
+              {isLoading ? 'Connecting...' : isLocked ? `Try again in ${retrySeconds}s` : 'Connect to Host'}
             </button>
           </div>
           
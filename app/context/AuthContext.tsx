@@ -1,10 +1,40 @@
 'use client'
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+
+type HostPaths = {
+  upload: string;
+  source: string;
+  workspace: string;
+  // Root of the remote file browser
+  files: string;
+};
+
+type ComputeNode = {
+  id: string;
+  label: string;
+};
+
+// Choices offered when submitting runs to the host's SLURM scheduler
+type SlurmDefaults = {
+  partitions: string[];
+  defaultTimeLimit: string;
+  defaultCpus: number;
+  defaultMemory: string;
+  defaultGpus: number;
+};
 
 type ConnectionDetails = {
-  ip: string;
+  // Host profile chosen at login
+  hostId: string;
+  hostLabel: string;
   hostname: string;
-  password: string;
+  // Default remote paths from the host profile, resolved for this user
+  paths: HostPaths;
+  // Nodes behind the login host that uploads and runs can target
+  computeNodes: ComputeNode[];
+  // Set when runs can be submitted as SLURM batch jobs on this host
+  slurm: SlurmDefaults | null;
+  sessionToken: string;
   isAuthenticated: boolean;
 };
 
@@ -12,13 +42,21 @@ interface AuthContextType {
   connectionDetails: ConnectionDetails;
   setConnectionDetails: (details: ConnectionDetails) => void;
   clearAuth: () => void;
+  // True while a stored session token is being checked against /api/session
+  isRestoringSession: boolean;
+  // fetch() wrapper that attaches the session token to API requests
+  authFetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 }
 
 // Default connection details
 const defaultConnectionDetails: ConnectionDetails = {
-  ip: '10.250.0.22', // Hardcoded IP as per requirements
+  hostId: '',
+  hostLabel: '',
   hostname: '',
-  password: '',
+  paths: { upload: '', source: '', workspace: '', files: '' },
+  computeNodes: [],
+  slurm: null,
+  sessionToken: '',
   isAuthenticated: false,
 };
 
@@ -27,6 +65,8 @@ const AuthContext = createContext<AuthContextType>({
   connectionDetails: defaultConnectionDetails,
   setConnectionDetails: () => {},
   clearAuth: () => {},
+  isRestoringSession: false,
+  authFetch: (input, init) => fetch(input, init),
 });
 
 // Custom hook to use the auth context
@@ -34,48 +74,93 @@ export const useAuth = () => useContext(AuthContext);
 
 // Provider component
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [connectionDetails, setConnectionDetails] = useState<ConnectionDetails>(defaultConnectionDetails);
+  const [connectionDetails, setConnectionDetailsState] = useState<ConnectionDetails>(defaultConnectionDetails);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
 
-  // Check for saved session on app load
+  // Check for saved session on app load - the server decides whether it is still alive
   useEffect(() => {
-    const savedAuth = localStorage.getItem('cairAuth');
-    if (savedAuth) {
+    const restoreSession = async () => {
+      const savedAuth = localStorage.getItem('cairAuth');
+      if (!savedAuth) {
+        return;
+      }
+
       try {
         const authData = JSON.parse(savedAuth);
-        const now = new Date().getTime();
-        
-        // Handle both old and new session formats
-        if (authData.connectionDetails) {
-          // Old format with connectionDetails
-          if (authData.expiresAt && now < authData.expiresAt) {
-            setConnectionDetails(authData.connectionDetails);
-          } else {
-            // Session expired, clear it
-            localStorage.removeItem('cairAuth');
-          }
-        } else if (authData.sessionToken) {
-          // New session token format - clear it since we're back to old format
+
+        // Only the session token format is accepted; older entries held the raw password
+        if (!authData.sessionToken) {
           localStorage.removeItem('cairAuth');
-        } else {
-          // Unknown format, clear it
+          return;
+        }
+
+        const res = await fetch('/api/session', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionToken: authData.sessionToken }),
+        });
+
+        if (!res.ok) {
+          // Session expired or unknown to the server, clear it
           localStorage.removeItem('cairAuth');
+          return;
         }
+
+        const { sessionData } = await res.json();
+        setConnectionDetailsState({
+          hostId: sessionData.hostId,
+          hostLabel: sessionData.hostLabel,
+          hostname: sessionData.hostname,
+          paths: sessionData.paths,
+          computeNodes: sessionData.computeNodes || [],
+          slurm: sessionData.slurm || null,
+          sessionToken: authData.sessionToken,
+          isAuthenticated: true,
+        });
       } catch (error) {
-        // Invalid stored data, clear it
+        // Invalid stored data or network failure, clear it
+        console.error('Failed to restore session:', error);
         localStorage.removeItem('cairAuth');
       }
+    };
+
+    restoreSession().finally(() => setIsRestoringSession(false));
+  }, []);
+
+  // Persist only the opaque session token alongside the in-memory details
+  const setConnectionDetails = useCallback((details: ConnectionDetails) => {
+    setConnectionDetailsState(details);
+    if (details.sessionToken) {
+      localStorage.setItem('cairAuth', JSON.stringify({ sessionToken: details.sessionToken }));
     }
   }, []);
 
-  const clearAuth = () => {
-    setConnectionDetails(defaultConnectionDetails);
+  const clearAuth = useCallback(() => {
+    // Tell the server to drop the session; the local state is cleared regardless
+    if (connectionDetails.sessionToken) {
+      fetch('/api/session', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionToken: connectionDetails.sessionToken }),
+      }).catch(error => console.error('Failed to delete session:', error));
+    }
+
+    setConnectionDetailsState(defaultConnectionDetails);
     // Clear localStorage session
     localStorage.removeItem('cairAuth');
-  };
+  }, [connectionDetails.sessionToken]);
+
+  const authFetch = useCallback((input: RequestInfo | URL, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    if (connectionDetails.sessionToken) {
+      headers.set('Authorization', `Bearer ${connectionDetails.sessionToken}`);
+    }
+    return fetch(input, { ...init, headers });
+  }, [connectionDetails.sessionToken]);
 
   return (
-    <AuthContext.Provider value={{ connectionDetails, setConnectionDetails, clearAuth }}>
+    <AuthContext.Provider value={{ connectionDetails, setConnectionDetails, clearAuth, isRestoringSession, authFetch }}>
       {children}
     </AuthContext.Provider>
   );
-}
\ No newline at end of file
+}
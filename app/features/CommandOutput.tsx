@@ -1,43 +1,139 @@
 'use client'
 import { useEffect, useState, useRef } from 'react';
+import { useAuth } from '../context/AuthContext';
+import RunMetricsCharts from './runMetricsCharts';
 
 interface CommandOutputProps {
   streamUrl?: string;
   formData?: FormData;
+  // Follow the log of an existing run instead of starting one
+  attachRunId?: string;
   autoScroll?: boolean;
 }
 
+// Reattach attempts after the stream drops mid-run, with a growing delay between them
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 2000;
+// Points kept per charted metric; older ones scroll off
+const MAX_METRIC_POINTS = 2000;
+
 type OutputLine = {
   type: 'status' | 'stdout' | 'stderr' | 'error' | 'success';
   message: string;
   timestamp: Date;
 };
 
+// An event of the run stream (see app/lib/runStreamProtocol.ts)
+type RunStreamEvent = {
+  v: number;
+  runId: string;
+  seq: number;
+  ts: number;
+  type: OutputLine['type'];
+  message: string;
+  metrics?: { step: number; values: Record<string, number> };
+  end?: boolean;
+  transient?: boolean;
+};
+
 export default function CommandOutput({ 
   streamUrl = '/api/model-run',
   formData,
+  attachRunId,
   autoScroll = true 
 }: CommandOutputProps) {
   const [outputLines, setOutputLines] = useState<OutputLine[]>([]);
+  // Metrics found in the run's output, charted next to it
+  const [metricSeries, setMetricSeries] = useState<Record<string, [number, number][]>>({});
   const [isStreaming, setIsStreaming] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
+  // Registry id of the run being streamed, announced by the server at the start
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
   const outputContainerRef = useRef<HTMLDivElement>(null);
+  const { authFetch } = useAuth();
+  // The stream reads authFetch from here, so a token refresh doesn't restart the run
+  const authFetchRef = useRef(authFetch);
+
+  useEffect(() => {
+    authFetchRef.current = authFetch;
+  }, [authFetch]);
 
-  // Start streaming when formData is provided
+  // Start streaming when formData is provided, or attach to an existing run's log
   useEffect(() => {
-    if (!formData) return;
+    if (!formData && !attachRunId) return;
     
     // Reset state for new streaming session
     setOutputLines([]);
+    setMetricSeries({});
     setIsComplete(false);
     setIsStreaming(true);
+    setRunId(attachRunId || null);
+    setIsCancelling(false);
 
-    const fetchStream = async () => {
-      try {
-        const response = await fetch(streamUrl, {
-          method: 'POST',
-          body: formData
+    // Leaving the page (or switching runs) only stops following; the run keeps going
+    const abortController = new AbortController();
+    // Where to resume the run's events if the connection drops
+    let streamRunId = attachRunId || null;
+    let lastSeq = 0;
+    let isReattaching = false;
+    let reconnectAttempts = 0;
+
+    const openStream = () => {
+      if (streamRunId && (attachRunId || isReattaching)) {
+        return authFetchRef.current(`/api/runs/${streamRunId}/log?after=${lastSeq}`, {
+          signal: abortController.signal
         });
+      }
+      return authFetchRef.current(streamUrl, {
+        method: 'POST',
+        body: formData,
+        signal: abortController.signal
+      });
+    };
+
+    const addLine = (text: string) => {
+      try {
+        const event: RunStreamEvent = JSON.parse(text);
+        // Let the runs panel pick up a newly registered run
+        if (event.runId && event.runId !== streamRunId) {
+          streamRunId = event.runId;
+          setRunId(event.runId);
+          document.dispatchEvent(new CustomEvent('runsUpdated'));
+        }
+        // Run events already shown (e.g. resent after a reattach) are skipped
+        if (!event.transient) {
+          if (event.seq <= lastSeq) return;
+          lastSeq = event.seq;
+        }
+        setOutputLines(prev => [...prev, {
+          type: event.type || 'status',
+          message: event.message,
+          timestamp: event.ts ? new Date(event.ts) : new Date()
+        }]);
+        const metrics = event.metrics;
+        if (metrics) {
+          setMetricSeries(prev => {
+            const next = { ...prev };
+            for (const [name, value] of Object.entries(metrics.values)) {
+              next[name] = [...(prev[name] || []), [metrics.step, value] as [number, number]].slice(-MAX_METRIC_POINTS);
+            }
+            return next;
+          });
+        }
+      } catch (e) {
+        // If not JSON, treat as plain text
+        setOutputLines(prev => [...prev, {
+          type: 'status',
+          message: text,
+          timestamp: new Date()
+        }]);
+      }
+    };
+
+    const fetchStream = async (): Promise<void> => {
+      try {
+        const response = await openStream();
 
         if (!response.ok) {
           const errorText = await response.text();
@@ -64,11 +160,13 @@ export default function CommandOutput({
         }
 
         // Add initial connecting message
-        setOutputLines([{ 
-          type: 'status', 
-          message: 'Connecting to server...', 
-          timestamp: new Date() 
-        }]);
+        if (!isReattaching) {
+          setOutputLines([{ 
+            type: 'status', 
+            message: 'Connecting to server...', 
+            timestamp: new Date() 
+          }]);
+        }
 
         // Read the stream
         const decoder = new TextDecoder();
@@ -80,28 +178,18 @@ export default function CommandOutput({
           if (done) {
             // Process any remaining buffer
             if (buffer.trim()) {
-              try {
-                const line = JSON.parse(buffer.trim());
-                setOutputLines(prev => [...prev, {
-                  type: line.type || 'status',
-                  message: line.message,
-                  timestamp: new Date()
-                }]);
-              } catch (e) {
-                // If not valid JSON, just add as status
-                setOutputLines(prev => [...prev, {
-                  type: 'status',
-                  message: buffer.trim(),
-                  timestamp: new Date()
-                }]);
-              }
+              addLine(buffer.trim());
             }
             
             setIsStreaming(false);
             setIsComplete(true);
+            document.dispatchEvent(new CustomEvent('runsUpdated'));
             break;
           }
 
+          // Data is flowing again, so a later drop gets a fresh set of attempts
+          reconnectAttempts = 0;
+
           // Decode the chunk and add it to our buffer
           const chunk = decoder.decode(value, { stream: true });
           buffer += chunk;
@@ -115,25 +203,29 @@ export default function CommandOutput({
           // Process complete lines
           for (const line of lines) {
             if (line.trim()) {
-              try {
-                const parsedLine = JSON.parse(line.trim());
-                setOutputLines(prev => [...prev, {
-                  type: parsedLine.type || 'status',
-                  message: parsedLine.message,
-                  timestamp: new Date()
-                }]);
-              } catch (e) {
-                // If not JSON, treat as plain text
-                setOutputLines(prev => [...prev, {
-                  type: 'status',
-                  message: line.trim(),
-                  timestamp: new Date()
-                }]);
-              }
+              addLine(line.trim());
             }
           }
         }
       } catch (error) {
+        if (abortController.signal.aborted) return;
+
+        // The run carries on remotely, so pick its log up again where we left off
+        if (streamRunId && reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+          isReattaching = true;
+          reconnectAttempts++;
+          setOutputLines(prev => [...prev, {
+            type: 'status',
+            message: `Connection lost, reattaching after event ${lastSeq}...`,
+            timestamp: new Date()
+          }]);
+          await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS * reconnectAttempts));
+          if (!abortController.signal.aborted) {
+            return fetchStream();
+          }
+          return;
+        }
+
         setOutputLines(prev => [...prev, {
           type: 'error',
           message: `Error: ${error instanceof Error ? error.message : String(error)}`,
@@ -148,9 +240,10 @@ export default function CommandOutput({
 
     // Cleanup function
     return () => {
+      abortController.abort();
       setIsStreaming(false);
     };
-  }, [formData, streamUrl]);
+  }, [formData, streamUrl, attachRunId]);
 
   // Auto-scroll to bottom when new content is added
   useEffect(() => {
@@ -159,6 +252,33 @@ export default function CommandOutput({
     }
   }, [outputLines, autoScroll]);
 
+  // Ask the server to stop the run (SIGINT, then SIGTERM/SIGKILL if it doesn't exit)
+  const handleStop = async () => {
+    if (!runId || !window.confirm('Stop this run? The remote process will be interrupted and the run marked as cancelled.')) {
+      return;
+    }
+
+    setIsCancelling(true);
+    try {
+      const response = await authFetch(`/api/runs/${runId}/cancel`, { method: 'POST' });
+      const result = await response.json();
+      setOutputLines(prev => [...prev, {
+        type: response.ok && result.success ? 'status' : 'error',
+        message: result.message || (response.ok ? 'Run cancelled' : 'Failed to cancel run'),
+        timestamp: new Date()
+      }]);
+      document.dispatchEvent(new CustomEvent('runsUpdated'));
+    } catch (error) {
+      setOutputLines(prev => [...prev, {
+        type: 'error',
+        message: `Failed to cancel run: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date()
+      }]);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   // Get the appropriate style for each message type
   const getLineStyle = (type: string) => {
     switch (type) {
@@ -197,14 +317,28 @@ export default function CommandOutput({
             Command Output {isStreaming && <span className="text-green-400 animate-pulse">● Live</span>}
           </h3>
         </div>
-        <div className="text-xs text-gray-400">
-          {isComplete ? 'Completed' : isStreaming ? 'Streaming...' : 'Waiting...'}
+        <div className="flex items-center gap-2">
+          {isStreaming && runId && (
+            <button
+              type="button"
+              onClick={handleStop}
+              disabled={isCancelling}
+              className="text-xs text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Stop this run"
+            >
+              {isCancelling ? 'Stopping...' : 'Stop'}
+            </button>
+          )}
+          <div className="text-xs text-gray-400">
+            {isComplete ? 'Completed' : isStreaming ? 'Streaming...' : 'Waiting...'}
+          </div>
         </div>
       </div>
 
+      <div className="flex flex-col lg:flex-row">
       <div 
         ref={outputContainerRef}
-        className="max-h-[300px] overflow-y-auto font-mono text-xs p-2 bg-gray-900 custom-scrollbar"
+        className="flex-1 min-w-0 max-h-[300px] overflow-y-auto font-mono text-xs p-2 bg-gray-900 custom-scrollbar"
       >
         {outputLines.length === 0 ? (
           <div className="text-gray-500 italic p-2">No output yet...</div>
@@ -225,6 +359,13 @@ export default function CommandOutput({
           </div>
         )}
       </div>
+
+      {Object.keys(metricSeries).length > 0 && (
+        <div className="lg:w-[32rem] max-h-[300px] overflow-y-auto p-2 border-t lg:border-t-0 lg:border-l border-gray-700 custom-scrollbar">
+          <RunMetricsCharts series={metricSeries} />
+        </div>
+      )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
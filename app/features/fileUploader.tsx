@@ -3,28 +3,105 @@ import { useState, useRef, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { useRouter } from 'next/navigation';
 import CommandOutput from './CommandOutput';
+import SweepLauncher from './sweepLauncher';
+import RemoteFileBrowser from './remoteFileBrowser';
 
 interface FileUploaderProps {
   onJsonUpload?: (jsonData: any, fileName: string) => void;
 }
 
+// Whether `target` is `folder` or inside it, once "." and ".." segments are resolved
+// (the server checks uploads against its file root the same way)
+function isInsideFolder(target: string, folder: string): boolean {
+  const normalize = (value: string) => value.split('/').reduce<string[]>((parts, part) => {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+    return parts;
+  }, []).join('/');
+  const normalizedTarget = normalize(target);
+  const normalizedFolder = normalize(folder);
+  return !normalizedFolder || normalizedTarget === normalizedFolder || normalizedTarget.startsWith(`${normalizedFolder}/`);
+}
+
 export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
   // Use the auth context to get user information
-  const { connectionDetails } = useAuth();
+  const { connectionDetails, isRestoringSession, authFetch, clearAuth } = useAuth();
   const router = useRouter();
   
-  // Create base home directory from connection details
-  const baseHomeDir = `/home/${connectionDetails.hostname || 'username'}/loading`;
+  // Default upload directory comes from the host profile chosen at login
+  const baseHomeDir = connectionDetails.paths.upload || `/home/${connectionDetails.hostname || 'username'}/loading`;
+  // Uploads may go anywhere inside the file root (the user's home folder by default)
+  const fileRoot = connectionDetails.paths.files || `/home/${connectionDetails.hostname || 'username'}`;
   
   // Use the home directory as default
   const [remoteDir, setRemoteDir] = useState<string>(baseHomeDir);
+  
+  // Follow the host profile's default once the session has been restored
+  useEffect(() => {
+    setRemoteDir(baseHomeDir);
+  }, [baseHomeDir]);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Compute node to upload to and run on; empty means the login host itself
+  const [nodeId, setNodeId] = useState<string>('');
+  // Run recipes offered by the server; the first one is the default
+  const [recipes, setRecipes] = useState<{ id: string; label: string; description?: string }[]>([]);
+  const [recipeId, setRecipeId] = useState<string>('');
+  
+  useEffect(() => {
+    if (!connectionDetails.isAuthenticated) return;
+    authFetch('/api/recipes')
+      .then(response => response.ok ? response.json() : { recipes: [] })
+      .then(data => {
+        setRecipes(data.recipes || []);
+        setRecipeId(data.recipes?.[0]?.id || '');
+      })
+      .catch(error => console.error('Error loading run recipes:', error));
+  }, [connectionDetails.isAuthenticated, authFetch]);
+  
+  // MLflow run created for each launch, in the chosen experiment (when the server has MLflow)
+  const [mlflow, setMlflow] = useState<{ enabled: boolean; experiments: { id: string; name: string }[] }>({ enabled: false, experiments: [] });
+  const [createMlflowRun, setCreateMlflowRun] = useState(false);
+  const [mlflowExperimentId, setMlflowExperimentId] = useState<string>('');
+  
+  useEffect(() => {
+    if (!connectionDetails.isAuthenticated) return;
+    authFetch('/api/mlflow-tracking')
+      .then(response => response.ok ? response.json() : { enabled: false })
+      .then(data => {
+        setMlflow({ enabled: Boolean(data.enabled), experiments: data.experiments || [] });
+        setMlflowExperimentId(data.defaultExperimentId || '');
+      })
+      .catch(error => console.error('Error loading MLflow settings:', error));
+  }, [connectionDetails.isAuthenticated, authFetch]);
+  const mlflowFields: Record<string, string> = mlflow.enabled && createMlflowRun && mlflowExperimentId ? { mlflowExperimentId } : {};
+  
+  // Start the run directly, or submit it to the host's SLURM scheduler
+  const [backend, setBackend] = useState<'direct' | 'slurm'>('direct');
+  const [slurmOptions, setSlurmOptions] = useState({ partition: '', timeLimit: '', cpus: '', memory: '', gpus: '' });
+  
+  // Start from the host's SLURM defaults once the session has been restored
+  useEffect(() => {
+    const slurm = connectionDetails.slurm;
+    setBackend('direct');
+    setSlurmOptions(slurm ? {
+      partition: slurm.partitions[0] || '',
+      timeLimit: slurm.defaultTimeLimit,
+      cpus: String(slurm.defaultCpus),
+      memory: slurm.defaultMemory,
+      gpus: String(slurm.defaultGpus),
+    } : { partition: '', timeLimit: '', cpus: '', memory: '', gpus: '' });
+  }, [connectionDetails.slurm]);
   const [uploadStatus, setUploadStatus] = useState<{
     status: 'idle' | 'uploading' | 'success' | 'error';
     message: string;
   }>({ status: 'idle', message: '' });
   const [isRedirecting, setIsRedirecting] = useState(false);
   const [pathError, setPathError] = useState<string | null>(null);
+  // Remote file browser for picking the upload folder
+  const [showBrowser, setShowBrowser] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // JSON file states - we keep the content but don't show textarea
@@ -32,6 +109,9 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
   const [jsonMode, setJsonMode] = useState<boolean>(false);
   const [jsonContent, setJsonContent] = useState<string>('{}');
 
+  // Launch the JSON config over a grid of values instead of as a single run
+  const [sweepMode, setSweepMode] = useState(false);
+
   // Add state for command execution
   const [commandFormData, setCommandFormData] = useState<FormData | undefined>(undefined);
   const [showCommandOutput, setShowCommandOutput] = useState(false);
@@ -70,11 +150,11 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
   
   // Handle authentication redirect
   useEffect(() => {
-    if (!connectionDetails.isAuthenticated) {
+    if (!isRestoringSession && !connectionDetails.isAuthenticated) {
       setIsRedirecting(true);
       router.push('/auth');
     }
-  }, [connectionDetails.isAuthenticated, router]);
+  }, [isRestoringSession, connectionDetails.isAuthenticated, router]);
 
   // If redirecting, show a loading state
   if (isRedirecting) {
@@ -130,9 +210,9 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
     // Always ensure path starts with a slash
     const formattedPath = newPath.startsWith('/') ? newPath : `/${newPath}`;
     
-    // Check if the path starts with the user's home directory
-    if (!formattedPath.startsWith(baseHomeDir)) {
-      setPathError(`Path must start with your home directory: ${baseHomeDir}`);
+    // Check if the path is within the user's home directory
+    if (!isInsideFolder(formattedPath, fileRoot)) {
+      setPathError(`Path must be within your home directory: ${fileRoot}`);
     } else {
       setPathError(null);
     }
@@ -173,10 +253,10 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
     e.preventDefault();
     
     // Validate path before upload
-    if (!remoteDir.startsWith(baseHomeDir)) {
+    if (!isInsideFolder(remoteDir, fileRoot)) {
       setUploadStatus({
         status: 'error',
-        message: `Upload path must be within your home directory: ${baseHomeDir}`
+        message: `Upload path must be within your home directory: ${fileRoot}`
       });
       return;
     }
@@ -209,17 +289,23 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
     const formData = new FormData();
     formData.append('file', fileToUpload);
     formData.append('remoteDir', remoteDir);
-    formData.append('connectionDetails', JSON.stringify(connectionDetails));
+    formData.append('nodeId', nodeId);
     
     setUploadStatus({ status: 'uploading', message: 'Uploading file...' });
     
     try {
       // First upload the file
-      const uploadResponse = await fetch('/api/upload', {
+      const uploadResponse = await authFetch('/api/upload', {
         method: 'POST',
         body: formData,
       });
       
+      // Server no longer recognises our session token - send the user back to log in
+      if (uploadResponse.status === 401) {
+        clearAuth();
+        return;
+      }
+      
       const uploadResult = await uploadResponse.json();
       
       if (uploadResponse.ok) {
@@ -236,7 +322,13 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
         const commandFormData = new FormData();
         commandFormData.append('file', fileToUpload);
         commandFormData.append('remoteDir', remoteDir);
-        commandFormData.append('connectionDetails', JSON.stringify(connectionDetails));
+        commandFormData.append('nodeId', nodeId);
+        commandFormData.append('backend', backend);
+        commandFormData.append('recipeId', recipeId);
+        Object.entries(mlflowFields).forEach(([key, value]) => commandFormData.append(key, value));
+        if (backend === 'slurm') {
+          Object.entries(slurmOptions).forEach(([key, value]) => commandFormData.append(key, value));
+        }
         
         // Set the form data for CommandOutput to use
         setCommandFormData(commandFormData);
@@ -306,6 +398,176 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
         </div>
 
         <form onSubmit={handleUpload} className={`${showCommandOutput ? 'space-y-2' : 'space-y-4'}`}>
+          {/* Recipe - only offered when there is more than one to choose from */}
+          {recipes.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Recipe
+              </label>
+              <select
+                value={recipeId}
+                onChange={(e) => setRecipeId(e.target.value)}
+                className="w-full px-4 py-2 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+              >
+                {recipes.map(recipe => (
+                  <option key={recipe.id} value={recipe.id}>{recipe.label}</option>
+                ))}
+              </select>
+              {recipes.find(recipe => recipe.id === recipeId)?.description && (
+                <p className="text-xs text-gray-400 mt-1">
+                  {recipes.find(recipe => recipe.id === recipeId)?.description}
+                </p>
+              )}
+            </div>
+          )}
+          
+          {/* Backend - only offered when the host profile has a SLURM scheduler */}
+          {connectionDetails.slurm && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Backend
+              </label>
+              <select
+                value={backend}
+                onChange={(e) => {
+                  setBackend(e.target.value as 'direct' | 'slurm');
+                  setNodeId('');
+                }}
+                className="w-full px-4 py-2 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+              >
+                <option value="direct">Run directly</option>
+                <option value="slurm">Submit to SLURM</option>
+              </select>
+              {backend === 'slurm' && (
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <label className="text-xs text-gray-400">
+                    Partition
+                    {connectionDetails.slurm.partitions.length > 0 ? (
+                      <select
+                        value={slurmOptions.partition}
+                        onChange={(e) => setSlurmOptions({ ...slurmOptions, partition: e.target.value })}
+                        className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+                      >
+                        {connectionDetails.slurm.partitions.map(partition => (
+                          <option key={partition} value={partition}>{partition}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={slurmOptions.partition}
+                        onChange={(e) => setSlurmOptions({ ...slurmOptions, partition: e.target.value })}
+                        placeholder="cluster default"
+                        className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+                      />
+                    )}
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Time Limit
+                    <input
+                      type="text"
+                      value={slurmOptions.timeLimit}
+                      onChange={(e) => setSlurmOptions({ ...slurmOptions, timeLimit: e.target.value })}
+                      placeholder="HH:MM:SS"
+                      className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white font-mono text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    CPUs
+                    <input
+                      type="number"
+                      min={1}
+                      value={slurmOptions.cpus}
+                      onChange={(e) => setSlurmOptions({ ...slurmOptions, cpus: e.target.value })}
+                      className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Memory
+                    <input
+                      type="text"
+                      value={slurmOptions.memory}
+                      onChange={(e) => setSlurmOptions({ ...slurmOptions, memory: e.target.value })}
+                      placeholder="16G"
+                      className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white font-mono text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    GPUs
+                    <input
+                      type="number"
+                      min={0}
+                      value={slurmOptions.gpus}
+                      onChange={(e) => setSlurmOptions({ ...slurmOptions, gpus: e.target.value })}
+                      className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {/* Execution target - only offered when the host profile has compute nodes */}
+          {connectionDetails.computeNodes.length > 0 && backend === 'direct' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Run On
+              </label>
+              <select
+                value={nodeId}
+                onChange={(e) => setNodeId(e.target.value)}
+                className="w-full px-4 py-2 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+              >
+                <option value="">{connectionDetails.hostLabel} (login node)</option>
+                {connectionDetails.computeNodes.map(node => (
+                  <option key={node.id} value={node.id}>{node.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          {/* MLflow run - only offered when the server has a tracking server configured */}
+          {mlflow.enabled && (
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={createMlflowRun}
+                  onChange={(e) => setCreateMlflowRun(e.target.checked)}
+                  className="mr-2"
+                />
+                Create MLflow run
+              </label>
+              {createMlflowRun && (
+                <label className="block text-xs text-gray-400 mt-2">
+                  Experiment
+                  {mlflow.experiments.length > 0 ? (
+                    <select
+                      value={mlflowExperimentId}
+                      onChange={(e) => setMlflowExperimentId(e.target.value)}
+                      className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white text-sm"
+                    >
+                      {!mlflow.experiments.some(experiment => experiment.id === mlflowExperimentId) && (
+                        <option value={mlflowExperimentId}>{mlflowExperimentId || '-- Select an experiment --'}</option>
+                      )}
+                      {mlflow.experiments.map(experiment => (
+                        <option key={experiment.id} value={experiment.id}>{experiment.name} ({experiment.id})</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={mlflowExperimentId}
+                      onChange={(e) => setMlflowExperimentId(e.target.value)}
+                      placeholder="Experiment id"
+                      className="w-full mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white font-mono text-sm"
+                    />
+                  )}
+                </label>
+              )}
+            </div>
+          )}
+          
           {/* Remote directory input */}
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-1">
@@ -329,10 +591,31 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
                   Path must be within your home directory: 
                 </p>
                 <p className="font-mono text-gray-300 bg-gray-800 px-2 py-1 rounded mt-1 break-all">
-                  {baseHomeDir}
+                  {fileRoot}
                 </p>
               </div>
             )}
+            <button
+              type="button"
+              onClick={() => setShowBrowser(!showBrowser)}
+              className="mt-2 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+            >
+              {showBrowser ? 'Hide remote files' : 'Browse remote files'}
+            </button>
+            {showBrowser && (
+              <div className="mt-2">
+                <RemoteFileBrowser
+                  key={nodeId}
+                  initialPath={pathError ? baseHomeDir : remoteDir}
+                  nodeId={nodeId}
+                  onSelectDirectory={(selectedPath) => {
+                    setRemoteDir(selectedPath);
+                    setPathError(null);
+                    setShowBrowser(false);
+                  }}
+                />
+              </div>
+            )}
           </div>
           
           {/* File selection */}
@@ -442,6 +725,38 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
             </>
           )}
           
+          {/* Parameter sweep - JSON configs only */}
+          {jsonMode && selectedFile && (
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={sweepMode}
+                  onChange={(e) => setSweepMode(e.target.checked)}
+                  className="mr-2"
+                />
+                Parameter sweep
+              </label>
+              {sweepMode && (
+                <div className="mt-2">
+                  <SweepLauncher
+                    template={jsonContent}
+                    fileName={jsonFileName}
+                    runFields={{
+                      remoteDir,
+                      nodeId,
+                      backend,
+                      recipeId,
+                      ...(backend === 'slurm' ? slurmOptions : {}),
+                      ...mlflowFields,
+                    }}
+                    disabled={!!pathError}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          
           {/* Upload status */}
           {uploadStatus.message && (
             <div className={`p-3 border rounded-md ${statusColors[uploadStatus.status]}`}>
@@ -451,19 +766,21 @@ export default function FileUploader({ onJsonUpload }: FileUploaderProps) {
             </div>
           )}
           
-          {/* Upload button */}
-          <button
-            type="submit"
-            disabled={uploadStatus.status === 'uploading' || !selectedFile || !!pathError}
-            className="w-full py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-md shadow-sm transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-            title={selectedFile ? `Upload & Run ${selectedFile.name}` : 'Upload & Run'}
-          >
-            {uploadStatus.status === 'uploading' 
-              ? 'Uploading...' 
-              : selectedFile 
-                ? `Upload & Run ${selectedFile.name.length > 20 ? selectedFile.name.substring(0, 20) + '...' : selectedFile.name}`
-                : 'Upload & Run'}
-          </button>
+          {/* Upload button - a sweep launches its runs itself */}
+          {!(jsonMode && sweepMode) && (
+            <button
+              type="submit"
+              disabled={uploadStatus.status === 'uploading' || !selectedFile || !!pathError}
+              className="w-full py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-md shadow-sm transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+              title={selectedFile ? `Upload & Run ${selectedFile.name}` : 'Upload & Run'}
+            >
+              {uploadStatus.status === 'uploading' 
+                ? 'Uploading...' 
+                : selectedFile 
+                  ? `Upload & Run ${selectedFile.name.length > 20 ? selectedFile.name.substring(0, 20) + '...' : selectedFile.name}`
+                  : 'Upload & Run'}
+            </button>
+          )}
         </form>
 
         {/* Command Output Component */}
@@ -39,7 +39,7 @@ export default function MlLoader({ onJsonChange = null }: MlLoaderProps) {
     const [runName, setRunName] = useState<string>(''); // State for run name
     
     // Get auth context for connection details
-    const { connectionDetails } = useAuth();
+    const { connectionDetails, authFetch } = useAuth();
     const router = useRouter();
     
     // Add auto-connection when authenticated
@@ -58,7 +58,7 @@ export default function MlLoader({ onJsonChange = null }: MlLoaderProps) {
             // Simple check if MLflow server is accessible
             const checkUrl = `/api/mlflow-proxy?run_id=check&mlflowUri=${encodeURIComponent(mlflowUri)}`;
             
-            const response = await fetch(checkUrl, {
+            const response = await authFetch(checkUrl, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
@@ -91,7 +91,7 @@ export default function MlLoader({ onJsonChange = null }: MlLoaderProps) {
             // Use API endpoint for fetching runs from the default experiment
             const apiUrl = `/api/mlflow-runs?experiment_id=${defaultExperimentId}&mlflowUri=${encodeURIComponent(mlflowUri)}`;
             
-            const response = await fetch(apiUrl, {
+            const response = await authFetch(apiUrl, {
                 method: 'GET',
                 headers: {
                     'Content-Type': 'application/json'
@@ -145,7 +145,7 @@ export default function MlLoader({ onJsonChange = null }: MlLoaderProps) {
         try {
             const apiUrl = `/api/mlflow-proxy?run_id=${runId}&mlflowUri=${encodeURIComponent(mlflowUri)}`;
             
-            const response = await fetch(apiUrl, {
+            const response = await authFetch(apiUrl, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
@@ -261,7 +261,7 @@ export default function MlLoader({ onJsonChange = null }: MlLoaderProps) {
             // Use our API endpoint for searching runs by name
             const apiUrl = `/api/mlflow-search?mlflowUri=${encodeURIComponent(mlflowUri)}`;
             
-            const response = await fetch(apiUrl, {
+            const response = await authFetch(apiUrl, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
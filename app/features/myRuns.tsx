@@ -0,0 +1,462 @@
+'use client'
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { RefreshCw } from 'lucide-react';
+import CommandOutput from './CommandOutput';
+import RunArtifacts from './runArtifacts';
+import RunLogViewer from './runLogViewer';
+import RunLogSearch from './runLogSearch';
+import RunMetrics from './runMetrics';
+
+type RunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+type RunRecord = {
+  id: string;
+  user: string;
+  runName: string;
+  folderName: string;
+  isolatedPath: string;
+  hostId: string;
+  hostLabel: string;
+  nodeId?: string;
+  nodeLabel?: string;
+  configFile: string;
+  recipeId?: string;
+  backend?: 'direct' | 'slurm';
+  slurm?: {
+    partition: string;
+    timeLimit: string;
+    cpus: number;
+    memory: string;
+    gpus: number;
+    jobId?: string;
+    state?: string;
+  };
+  queuedAt?: number;
+  // Place in the server's queue, for queued runs
+  queuePosition?: number;
+  sweep?: {
+    id: string;
+    label: string;
+    index: number;
+    total: number;
+    values: Record<string, unknown>;
+  };
+  startedAt: number;
+  endedAt?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  durationMs?: number;
+  status: RunStatus;
+  cancelRequestedAt?: number;
+  error?: string;
+  pinned?: boolean;
+  workspaceDeletedAt?: number;
+  // Metrics found in the run's output so far
+  metricNames?: string[];
+  // MLflow run created for it at launch
+  mlflow?: {
+    runId: string;
+    experimentId: string;
+    url: string;
+  };
+};
+
+// Poll while something is still running so the list catches the end of the run
+const POLL_INTERVAL_MS = 10000;
+
+const statusStyles: Record<RunStatus, string> = {
+  queued: 'bg-gray-700/50 text-gray-300 border-gray-600',
+  running: 'bg-blue-900/50 text-blue-300 border-blue-700',
+  succeeded: 'bg-green-900/50 text-green-300 border-green-700',
+  failed: 'bg-red-900/50 text-red-300 border-red-700',
+  cancelled: 'bg-orange-900/50 text-orange-300 border-orange-700',
+};
+
+type RunListItem = { run: RunRecord } | { sweep: NonNullable<RunRecord['sweep']>; runs: RunRecord[] };
+
+// Runs in list order, with the runs of a sweep gathered in sweep order where its newest run is
+function groupRuns(runs: RunRecord[]): RunListItem[] {
+  const items: RunListItem[] = [];
+  const sweeps = new Map<string, RunRecord[]>();
+  for (const run of runs) {
+    if (!run.sweep) {
+      items.push({ run });
+    } else if (sweeps.has(run.sweep.id)) {
+      sweeps.get(run.sweep.id)!.push(run);
+    } else {
+      const sweepRuns = [run];
+      sweeps.set(run.sweep.id, sweepRuns);
+      items.push({ sweep: run.sweep, runs: sweepRuns });
+    }
+  }
+  sweeps.forEach(sweepRuns => sweepRuns.sort((a, b) => a.sweep!.index - b.sweep!.index));
+  return items;
+}
+
+function countStatuses(runs: RunRecord[]): Partial<Record<RunStatus, number>> {
+  const counts: Partial<Record<RunStatus, number>> = {};
+  runs.forEach(run => {
+    counts[run.status] = (counts[run.status] ?? 0) + 1;
+  });
+  return counts;
+}
+
+function formatDuration(startedAt: number, endedAt?: number): string {
+  const totalSeconds = Math.max(0, Math.round(((endedAt ?? Date.now()) - startedAt) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+export default function MyRuns() {
+  const { connectionDetails, authFetch, clearAuth } = useAuth();
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  // Run whose log is being followed below its details
+  const [logRunId, setLogRunId] = useState<string | null>(null);
+  // Line of the followed run's stored log to open at, from a search match
+  const [logHighlightSeq, setLogHighlightSeq] = useState<number | undefined>(undefined);
+  // Run whose artifacts are listed below its details
+  const [artifactsRunId, setArtifactsRunId] = useState<string | null>(null);
+  // Run whose saved metrics are charted below its details
+  const [metricsRunId, setMetricsRunId] = useState<string | null>(null);
+  // Run with a pin request in flight
+  const [pinBusyRunId, setPinBusyRunId] = useState<string | null>(null);
+  // Queued run with a move or remove request in flight
+  const [queueBusyRunId, setQueueBusyRunId] = useState<string | null>(null);
+
+  // A run linked to from outside (/?run=<id>, e.g. from its MLflow run) opens expanded
+  useEffect(() => {
+    const linkedRunId = new URLSearchParams(window.location.search).get('run');
+    if (linkedRunId) {
+      setExpandedRunId(linkedRunId);
+    }
+  }, []);
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await authFetch('/api/runs');
+      if (response.status === 401) {
+        clearAuth();
+        return;
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to load runs');
+        return;
+      }
+      setRuns(data.runs || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading runs:', err);
+      setError('Failed to load runs due to a network error.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch, clearAuth]);
+
+  // Reorder or drop one of the user's queued runs
+  const updateQueuedRun = async (runId: string, action: 'up' | 'down' | 'remove') => {
+    setQueueBusyRunId(runId);
+    try {
+      const response = action === 'remove'
+        ? await authFetch(`/api/runs/${runId}/cancel`, { method: 'POST' })
+        : await authFetch(`/api/runs/${runId}/move`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ direction: action })
+          });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.message || 'Failed to update the queue');
+      }
+    } catch (err) {
+      console.error('Error updating queued run:', err);
+      setError('Failed to update the queue due to a network error.');
+    } finally {
+      setQueueBusyRunId(null);
+      loadRuns();
+    }
+  };
+
+  // Pinned runs keep their isolated folder through the workspace cleanup
+  // Show a search match in its run's stored log
+  const openLogMatch = (runId: string, seq: number) => {
+    setExpandedRunId(runId);
+    setLogRunId(runId);
+    setLogHighlightSeq(seq);
+  };
+
+  const togglePinned = async (run: RunRecord) => {
+    setPinBusyRunId(run.id);
+    try {
+      const response = await authFetch(`/api/runs/${run.id}/pin`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pinned: !run.pinned })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.message || 'Failed to pin the run');
+      }
+    } catch (err) {
+      console.error('Error pinning run:', err);
+      setError('Failed to pin the run due to a network error.');
+    } finally {
+      setPinBusyRunId(null);
+      loadRuns();
+    }
+  };
+
+  // Initial load once logged in
+  useEffect(() => {
+    if (connectionDetails.isAuthenticated) {
+      loadRuns();
+    }
+  }, [connectionDetails.isAuthenticated, loadRuns]);
+
+  // CommandOutput announces runs starting and finishing
+  useEffect(() => {
+    const handleRunsUpdated = () => loadRuns();
+    document.addEventListener('runsUpdated', handleRunsUpdated);
+    return () => document.removeEventListener('runsUpdated', handleRunsUpdated);
+  }, [loadRuns]);
+
+  const hasRunningRuns = runs.some(run => run.status === 'running' || run.status === 'queued');
+  useEffect(() => {
+    if (!hasRunningRuns) return;
+    const interval = setInterval(loadRuns, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRunningRuns, loadRuns]);
+
+  const renderRun = (run: RunRecord, inSweep = false) => (
+    <Fragment key={run.id}>
+      <tr
+        onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+        className="border-b border-gray-800 hover:bg-gray-800/50 cursor-pointer"
+      >
+        <td className={`py-2 pr-2 text-gray-200 truncate max-w-[10rem] ${inSweep ? 'pl-4' : ''}`} title={run.folderName}>
+          {run.runName}{run.pinned && <span className="text-yellow-400" title="Pinned"> *</span>}
+        </td>
+        <td className="py-2 pr-2 text-gray-400">
+          {run.nodeLabel || run.hostLabel}{run.slurm && <span className="text-gray-500"> · SLURM</span>}
+        </td>
+        <td className="py-2 pr-2 text-gray-400">{new Date(run.startedAt).toLocaleString()}</td>
+        <td className="py-2 pr-2 text-gray-400">{formatDuration(run.startedAt, run.endedAt)}</td>
+        <td className="py-2">
+          <span className={`px-2 py-0.5 text-xs border rounded ${statusStyles[run.status]}`}>
+            {run.status}{run.status === 'queued' && run.queuePosition ? ` #${run.queuePosition}` : ''}{run.exitCode !== undefined && run.exitCode !== null && run.status === 'failed' ? ` (${run.exitCode})` : ''}
+          </span>
+        </td>
+      </tr>
+      {expandedRunId === run.id && (
+        <tr className="border-b border-gray-800 bg-gray-800/30">
+          <td colSpan={5} className="p-3 text-xs text-gray-400 space-y-1">
+            <p>Run ID: <span className="font-mono text-gray-300">{run.id}</span></p>
+            <p>
+              Folder: <span className="font-mono text-gray-300 break-all">{run.isolatedPath}</span>
+              {run.workspaceDeletedAt && <span className="text-gray-500"> (deleted {new Date(run.workspaceDeletedAt).toLocaleString()})</span>}
+            </p>
+            {run.configFile && (
+              <p>Config: <span className="font-mono text-gray-300 break-all">{run.configFile}</span></p>
+            )}
+            {run.recipeId && (
+              <p>Recipe: <span className="font-mono text-gray-300">{run.recipeId}</span></p>
+            )}
+            {run.sweep && (
+              <p>
+                Sweep run {run.sweep.index + 1} of {run.sweep.total}:{' '}
+                <span className="font-mono text-gray-300 break-all">
+                  {Object.entries(run.sweep.values).map(([path, value]) => `${path}=${JSON.stringify(value)}`).join(', ')}
+                </span>
+              </p>
+            )}
+            {run.slurm && (
+              <p>
+                SLURM job: <span className="font-mono text-gray-300">{run.slurm.jobId || 'not submitted'}</span>
+                {run.slurm.state && ` (${run.slurm.state})`}
+                {` · ${run.slurm.partition || 'default partition'}, ${run.slurm.timeLimit}, ${run.slurm.cpus} CPU, ${run.slurm.memory}`}
+                {run.slurm.gpus > 0 && `, ${run.slurm.gpus} GPU`}
+              </p>
+            )}
+            {run.queuedAt && <p>Queued: {new Date(run.queuedAt).toLocaleString()}</p>}
+            {run.endedAt && <p>Ended: {new Date(run.endedAt).toLocaleString()}</p>}
+            {run.signal && <p>Signal: <span className="font-mono text-gray-300">SIG{run.signal}</span></p>}
+            {run.mlflow && (
+              <p>
+                MLflow run:{' '}
+                <a
+                  href={run.mlflow.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-blue-400 hover:text-blue-300"
+                >
+                  {run.mlflow.runId} ↗
+                </a>
+              </p>
+            )}
+            {run.error && <p className="text-red-400">Error: {run.error}</p>}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setLogRunId(logRunId === run.id ? null : run.id);
+                  setLogHighlightSeq(undefined);
+                }}
+                className="mt-1 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+              >
+                {logRunId === run.id ? 'Hide log' : run.status === 'running' || run.status === 'queued' ? 'Reattach to log' : 'View log'}
+              </button>
+              {run.status !== 'queued' && !run.workspaceDeletedAt && (
+                <button
+                  type="button"
+                  onClick={() => setArtifactsRunId(artifactsRunId === run.id ? null : run.id)}
+                  className="mt-1 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                >
+                  {artifactsRunId === run.id ? 'Hide artifacts' : 'Artifacts'}
+                </button>
+              )}
+              {Boolean(run.metricNames?.length) && (
+                <button
+                  type="button"
+                  onClick={() => setMetricsRunId(metricsRunId === run.id ? null : run.id)}
+                  className="mt-1 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                  title={run.metricNames?.join(', ')}
+                >
+                  {metricsRunId === run.id ? 'Hide metrics' : 'Metrics'}
+                </button>
+              )}
+              {!run.workspaceDeletedAt && (
+                <button
+                  type="button"
+                  onClick={() => togglePinned(run)}
+                  disabled={pinBusyRunId === run.id}
+                  className="mt-1 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+                  title="Pinned runs keep their folder when old workspaces are cleaned up"
+                >
+                  {run.pinned ? 'Unpin' : 'Pin'}
+                </button>
+              )}
+              {run.status === 'queued' && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => updateQueuedRun(run.id, 'up')}
+                    disabled={queueBusyRunId === run.id}
+                    className="mt-1 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+                    title="Start this run before your previous queued run"
+                  >
+                    Move up
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateQueuedRun(run.id, 'down')}
+                    disabled={queueBusyRunId === run.id}
+                    className="mt-1 text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+                    title="Start this run after your next queued run"
+                  >
+                    Move down
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateQueuedRun(run.id, 'remove')}
+                    disabled={queueBusyRunId === run.id}
+                    className="mt-1 text-xs text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded disabled:opacity-50"
+                  >
+                    Remove from queue
+                  </button>
+                </>
+              )}
+            </div>
+            {artifactsRunId === run.id && (
+              <div className="pt-2">
+                <RunArtifacts runId={run.id} />
+              </div>
+            )}
+            {metricsRunId === run.id && (
+              <div className="pt-2">
+                <RunMetrics runId={run.id} />
+              </div>
+            )}
+            {logRunId === run.id && (
+              <div className="pt-2">
+                {(run.status === 'running' || run.status === 'queued') && logHighlightSeq === undefined
+                  ? <CommandOutput attachRunId={run.id} />
+                  : <RunLogViewer key={logHighlightSeq} runId={run.id} highlightSeq={logHighlightSeq} />}
+              </div>
+            )}
+          </td>
+        </tr>
+      )}
+    </Fragment>
+  );
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center border-b border-gray-700 mb-3 pb-3">
+        <h2 className="text-lg font-medium text-gray-200">My Runs</h2>
+        <button
+          type="button"
+          onClick={loadRuns}
+          disabled={isLoading}
+          className="flex items-center text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+          title="Refresh runs"
+        >
+          <RefreshCw className={`h-3 w-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      <RunLogSearch onOpenMatch={openLogMatch} />
+
+      {error && (
+        <div className="mb-3 p-3 border rounded-md bg-red-900/50 border-red-700">
+          <p className="text-sm text-red-400">{error}</p>
+        </div>
+      )}
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">
+          {isLoading ? 'Loading runs...' : 'No runs yet. Use "Upload & Run" to start one.'}
+        </p>
+      ) : (
+        <div className="max-h-[320px] overflow-y-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400 border-b border-gray-700">
+                <th className="py-2 pr-2 font-medium">Run</th>
+                <th className="py-2 pr-2 font-medium">Host</th>
+                <th className="py-2 pr-2 font-medium">Started</th>
+                <th className="py-2 pr-2 font-medium">Duration</th>
+                <th className="py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groupRuns(runs).map(item => 'run' in item ? renderRun(item.run) : (
+                <Fragment key={item.sweep.id}>
+                  <tr className="border-b border-gray-800 bg-gray-800/20">
+                    <td colSpan={5} className="py-2 text-xs text-gray-300">
+                      <span className="font-medium">Sweep {item.sweep.label}</span>
+                      <span className="text-gray-500">
+                        {` · ${item.runs.length} of ${item.sweep.total} runs · `}
+                        {Object.entries(countStatuses(item.runs)).map(([status, count]) => `${count} ${status}`).join(', ')}
+                      </span>
+                    </td>
+                  </tr>
+                  {item.runs.map(run => renderRun(run, true))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
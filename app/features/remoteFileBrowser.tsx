@@ -0,0 +1,268 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ArrowUp, File, Folder, Link, RefreshCw } from 'lucide-react';
+
+interface RemoteFileBrowserProps {
+  // Folder to open first; defaults to the file root
+  initialPath?: string;
+  // Compute node to browse instead of the login host
+  nodeId?: string;
+  // When given, folders can be picked (e.g. as the upload target)
+  onSelectDirectory?: (path: string) => void;
+}
+
+type RemoteFileEntry = {
+  name: string;
+  path: string;
+  type: 'directory' | 'file' | 'symlink' | 'other';
+  size: number;
+  modifiedAt: number;
+  permissions: string;
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+// Parent folders of `current` from the root down, for the breadcrumb
+function breadcrumbs(root: string, current: string): { name: string; path: string }[] {
+  if (!root || !current.startsWith(root)) {
+    return [];
+  }
+  const crumbs = [{ name: root, path: root }];
+  let crumbPath = root;
+  for (const part of current.slice(root.length).split('/').filter(Boolean)) {
+    crumbPath = `${crumbPath.replace(/\/$/, '')}/${part}`;
+    crumbs.push({ name: part, path: crumbPath });
+  }
+  return crumbs;
+}
+
+export default function RemoteFileBrowser({ initialPath, nodeId = '', onSelectDirectory }: RemoteFileBrowserProps) {
+  const { connectionDetails, authFetch } = useAuth();
+  const [startPath] = useState(initialPath || '');
+  const [root, setRoot] = useState('');
+  const [currentPath, setCurrentPath] = useState(initialPath || '');
+  const [entries, setEntries] = useState<RemoteFileEntry[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [selected, setSelected] = useState<RemoteFileEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openPath = useCallback(async (requestedPath: string) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ path: requestedPath, nodeId });
+      const response = await authFetch(`/api/files?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to open the folder');
+        return;
+      }
+      setRoot(data.root);
+      if (data.entry.type === 'directory') {
+        setCurrentPath(data.path);
+        setEntries(data.entries || []);
+        setTruncated(Boolean(data.truncated));
+        setSelected(null);
+      } else {
+        setSelected(data.entry);
+      }
+      setError(null);
+    } catch (err) {
+      console.error('Error browsing remote files:', err);
+      setError('Failed to open the folder due to a network error.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch, nodeId]);
+
+  // Start over when the host or node changes
+  useEffect(() => {
+    if (connectionDetails.isAuthenticated) {
+      openPath(startPath);
+    }
+  }, [connectionDetails.isAuthenticated, startPath, openPath]);
+
+  // Create, rename or delete, then show the folder again
+  const changeFiles = async (method: 'POST' | 'PATCH' | 'DELETE', body: Record<string, unknown>) => {
+    setIsBusy(true);
+    try {
+      const response = await authFetch('/api/files', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, nodeId })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.message || 'The change failed');
+        return;
+      }
+      setError(null);
+      await openPath(currentPath);
+    } catch (err) {
+      console.error('Error changing remote files:', err);
+      setError('The change failed due to a network error.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const createFolder = () => {
+    const name = window.prompt('New folder name');
+    if (name?.trim()) {
+      changeFiles('POST', { path: `${currentPath}/${name.trim()}` });
+    }
+  };
+
+  const renameEntry = (entry: RemoteFileEntry) => {
+    const to = window.prompt(`Rename or move ${entry.name} to`, entry.path);
+    if (to?.trim() && to.trim() !== entry.path) {
+      changeFiles('PATCH', { path: entry.path, to: to.trim() });
+    }
+  };
+
+  const deleteEntry = (entry: RemoteFileEntry) => {
+    const what = entry.type === 'directory' ? `the folder ${entry.path} and everything in it` : entry.path;
+    if (window.confirm(`Delete ${what}? This cannot be undone.`)) {
+      changeFiles('DELETE', { path: entry.path, recursive: entry.type === 'directory' });
+    }
+  };
+
+  // The upload folder and the run workspace (the "loading" and "vmes" folders by default)
+  const shortcuts = [...new Set([connectionDetails.paths.upload, connectionDetails.paths.workspace])]
+    .filter(shortcutPath => shortcutPath && (!root || shortcutPath.startsWith(root)))
+    .map(shortcutPath => ({ label: shortcutPath.split('/').filter(Boolean).pop() || shortcutPath, path: shortcutPath }));
+
+  const atRoot = currentPath === root;
+
+  return (
+    <div className="border border-gray-700 rounded-md bg-gray-800/30 p-2 text-xs text-gray-300 space-y-2">
+      <div className="flex items-center gap-1 flex-wrap">
+        <button
+          type="button"
+          onClick={() => openPath(`${currentPath}/..`)}
+          disabled={atRoot || isLoading}
+          className="p-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          title="Parent folder"
+        >
+          <ArrowUp className="h-3 w-3" />
+        </button>
+        <button
+          type="button"
+          onClick={() => openPath(currentPath)}
+          disabled={isLoading}
+          className="p-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-3 w-3 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+        <div className="flex items-center font-mono break-all">
+          {breadcrumbs(root, currentPath).map((crumb, index) => (
+            <span key={crumb.path}>
+              {index > 0 && <span className="text-gray-500">/</span>}
+              <button type="button" onClick={() => openPath(crumb.path)} className="hover:text-white hover:underline">
+                {crumb.name}
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="ml-auto flex gap-1">
+          {shortcuts.map(shortcut => (
+            <button
+              key={shortcut.label}
+              type="button"
+              onClick={() => openPath(shortcut.path)}
+              className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+              title={shortcut.path}
+            >
+              {shortcut.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={createFolder}
+            disabled={isBusy || !currentPath}
+            className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          >
+            New folder
+          </button>
+          {onSelectDirectory && (
+            <button
+              type="button"
+              onClick={() => onSelectDirectory(currentPath)}
+              disabled={!currentPath}
+              className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              Use this folder
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 break-all">{error}</p>}
+
+      <div className="max-h-64 overflow-y-auto">
+        {!isLoading && !entries.length && !error && <p className="text-gray-500 p-1">This folder is empty.</p>}
+        <table className="w-full text-left">
+          <tbody>
+            {entries.map(entry => (
+              <tr
+                key={entry.path}
+                className={`border-b border-gray-800 hover:bg-gray-800/50 ${selected?.path === entry.path ? 'bg-gray-800' : ''}`}
+              >
+                <td className="py-1 pr-2">
+                  <button
+                    type="button"
+                    onClick={() => entry.type === 'directory' ? openPath(entry.path) : setSelected(entry)}
+                    className="flex items-center gap-1 font-mono text-left break-all hover:text-white"
+                  >
+                    {entry.type === 'directory' ? <Folder className="h-3 w-3 text-blue-400 shrink-0" />
+                      : entry.type === 'symlink' ? <Link className="h-3 w-3 text-gray-400 shrink-0" />
+                      : <File className="h-3 w-3 text-gray-400 shrink-0" />}
+                    {entry.name}
+                  </button>
+                </td>
+                <td className="py-1 pr-2 text-gray-400 whitespace-nowrap">{entry.type === 'directory' ? '' : formatSize(entry.size)}</td>
+                <td className="py-1 pr-2 text-gray-400 whitespace-nowrap">{new Date(entry.modifiedAt).toLocaleString()}</td>
+                <td className="py-1 pr-2 text-gray-500 font-mono">{entry.permissions}</td>
+                <td className="py-1 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    onClick={() => renameEntry(entry)}
+                    disabled={isBusy}
+                    className="text-blue-400 hover:text-blue-300 disabled:opacity-50 mr-2"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteEntry(entry)}
+                    disabled={isBusy}
+                    className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {truncated && <p className="text-yellow-400">Only the first {entries.length} entries are shown.</p>}
+
+      {selected && (
+        <p className="text-gray-400 break-all">
+          <span className="font-mono text-gray-300">{selected.path}</span>
+          {` · ${selected.type} · ${formatSize(selected.size)} · ${selected.permissions} · modified ${new Date(selected.modifiedAt).toLocaleString()}`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+interface RunArtifactsProps {
+  runId: string;
+}
+
+type RunArtifact = {
+  path: string;
+  size: number;
+  modifiedAt: number;
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+// Save a downloaded response under the name the server suggested
+async function saveResponse(response: Response, fallbackName: string) {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export default function RunArtifacts({ runId }: RunArtifactsProps) {
+  const { authFetch } = useAuth();
+  const [artifacts, setArtifacts] = useState<RunArtifact[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [rules, setRules] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadArtifacts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await authFetch(`/api/runs/${runId}/artifacts`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to list artifacts');
+        return;
+      }
+      setArtifacts(data.artifacts || []);
+      setTruncated(Boolean(data.truncated));
+      setRules(data.rules || []);
+      setSelected(new Set());
+      setError(null);
+    } catch (err) {
+      console.error('Error listing artifacts:', err);
+      setError('Failed to list artifacts due to a network error.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch, runId]);
+
+  useEffect(() => {
+    loadArtifacts();
+  }, [loadArtifacts]);
+
+  const download = async (request: Promise<Response>, fallbackName: string) => {
+    setIsDownloading(true);
+    try {
+      const response = await request;
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.message || 'Download failed');
+        return;
+      }
+      await saveResponse(response, fallbackName);
+      setError(null);
+    } catch (err) {
+      console.error('Error downloading artifacts:', err);
+      setError('Download failed due to a network error.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const downloadFile = (artifact: RunArtifact) => download(
+    authFetch(`/api/runs/${runId}/artifacts/file?path=${encodeURIComponent(artifact.path)}`),
+    artifact.path.split('/').pop() || 'artifact'
+  );
+
+  // The selected artifacts, or all of them when nothing is selected
+  const downloadArchive = () => download(
+    authFetch(`/api/runs/${runId}/artifacts/archive`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(selected.size ? { paths: [...selected] } : {})
+    }),
+    'artifacts.tar.gz'
+  );
+
+  const toggleSelected = (artifactPath: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(artifactPath)) {
+        next.delete(artifactPath);
+      } else {
+        next.add(artifactPath);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-gray-300">Artifacts</span>
+        {rules.length > 0 && (
+          <span className="font-mono text-gray-500 truncate" title="Artifact rules from the run's recipe">{rules.join(' ')}</span>
+        )}
+        <button
+          type="button"
+          onClick={loadArtifacts}
+          disabled={isLoading}
+          className="ml-auto text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+        <button
+          type="button"
+          onClick={downloadArchive}
+          disabled={isDownloading || !artifacts.length}
+          className="text-xs text-white bg-green-600 hover:bg-green-700 px-2 py-1 rounded disabled:opacity-50"
+        >
+          {selected.size ? `Download ${selected.size} selected (.tar.gz)` : 'Download all (.tar.gz)'}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {!isLoading && !error && !artifacts.length && (
+        <p className="text-gray-500">No artifacts in the run folder yet.</p>
+      )}
+
+      {artifacts.length > 0 && (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-left">
+            <tbody>
+              {artifacts.map(artifact => (
+                <tr key={artifact.path} className="border-b border-gray-800">
+                  <td className="py-1 pr-2 w-4">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(artifact.path)}
+                      onChange={() => toggleSelected(artifact.path)}
+                      aria-label={`Select ${artifact.path}`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2 font-mono text-gray-300 break-all">{artifact.path}</td>
+                  <td className="py-1 pr-2 text-gray-400 whitespace-nowrap">{formatSize(artifact.size)}</td>
+                  <td className="py-1 pr-2 text-gray-400 whitespace-nowrap">{new Date(artifact.modifiedAt).toLocaleString()}</td>
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={() => downloadFile(artifact)}
+                      disabled={isDownloading}
+                      className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                      Download
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {truncated && (
+        <p className="text-yellow-400">Only the first {artifacts.length} artifacts are listed; the archive of all artifacts is limited the same way.</p>
+      )}
+    </div>
+  );
+}
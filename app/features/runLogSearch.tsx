@@ -0,0 +1,121 @@
+'use client'
+import { FormEvent, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Search } from 'lucide-react';
+
+interface RunLogSearchProps {
+  // Open a run's log at a matching line
+  onOpenMatch: (runId: string, seq: number) => void;
+}
+
+type RunLogMatch = {
+  seq: number;
+  line: string;
+  before: string[];
+  after: string[];
+};
+
+type RunSearchResult = {
+  runId: string;
+  folderName: string;
+  status: string;
+  startedAt: number;
+  matches: RunLogMatch[];
+};
+
+// Search across the stored logs of all of the user's runs
+export default function RunLogSearch({ onOpenMatch }: RunLogSearchProps) {
+  const { authFetch } = useAuth();
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [results, setResults] = useState<RunSearchResult[] | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) {
+      return;
+    }
+    setIsSearching(true);
+    try {
+      const params = new URLSearchParams({ q: query, regex: isRegex ? '1' : '0', context: '2' });
+      const response = await authFetch(`/api/runs/search?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Search failed');
+        return;
+      }
+      setResults(data.results || []);
+      setTruncated(Boolean(data.truncated));
+      setError(null);
+    } catch (err) {
+      console.error('Error searching run logs:', err);
+      setError('Search failed due to a network error.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="mb-3 text-xs text-gray-300 space-y-2">
+      <form onSubmit={search} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder="Search run logs"
+          className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-blue-500"
+        />
+        <label className="flex items-center gap-1 text-gray-400">
+          <input type="checkbox" checked={isRegex} onChange={event => setIsRegex(event.target.checked)} />
+          Regex
+        </label>
+        <button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          className="flex items-center bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+        >
+          <Search className="h-3 w-3 mr-1" />
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+        {results && (
+          <button type="button" onClick={() => setResults(null)} className="text-gray-400 hover:text-white">
+            Clear
+          </button>
+        )}
+      </form>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {results && (
+        <div className="max-h-80 overflow-y-auto space-y-2 border border-gray-700 rounded-md p-2 bg-gray-800/30">
+          {!results.length && <p className="text-gray-500">No matches.</p>}
+          {results.map(result => (
+            <div key={result.runId}>
+              <p className="text-gray-400">
+                <span className="font-mono text-gray-200">{result.folderName}</span>
+                {` · ${result.status} · ${new Date(result.startedAt).toLocaleString()} · ${result.matches.length} match(es)`}
+              </p>
+              {result.matches.map(match => (
+                <button
+                  key={match.seq}
+                  type="button"
+                  onClick={() => onOpenMatch(result.runId, match.seq)}
+                  className="block w-full text-left font-mono mt-1 p-1 rounded hover:bg-gray-800 whitespace-pre-wrap break-all"
+                  title="Open the log at this line"
+                >
+                  {match.before.map((line, index) => <span key={`b${index}`} className="block text-gray-500">{line}</span>)}
+                  <span className="block text-yellow-300">{match.line}</span>
+                  {match.after.map((line, index) => <span key={`a${index}`} className="block text-gray-500">{line}</span>)}
+                </button>
+              ))}
+            </div>
+          ))}
+          {truncated && <p className="text-yellow-400">Only the first matches are shown; narrow the search to see more.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+interface RunLogViewerProps {
+  runId: string;
+  // Entry to open the log at and highlight, e.g. a search match
+  highlightSeq?: number;
+}
+
+type RunLogEntry = {
+  seq: number;
+  ts: number;
+  type: 'status' | 'stdout' | 'stderr' | 'success' | 'error';
+  message: string;
+};
+
+const PAGE_SIZE = 500;
+
+function getLineStyle(type: RunLogEntry['type']) {
+  switch (type) {
+    case 'stdout':
+      return 'text-green-300';
+    case 'stderr':
+      return 'text-yellow-300';
+    case 'error':
+      return 'text-red-400';
+    case 'success':
+      return 'text-green-400';
+    case 'status':
+    default:
+      return 'text-blue-300';
+  }
+}
+
+// The stored log of a run, a page at a time
+export default function RunLogViewer({ runId, highlightSeq }: RunLogViewerProps) {
+  const { authFetch } = useAuth();
+  const [entries, setEntries] = useState<RunLogEntry[]>([]);
+  const [from, setFrom] = useState(highlightSeq !== undefined ? Math.floor((highlightSeq - 1) / PAGE_SIZE) * PAGE_SIZE : 0);
+  const [total, setTotal] = useState(0);
+  const [complete, setComplete] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (pageFrom: number) => {
+    setIsLoading(true);
+    try {
+      const response = await authFetch(`/api/runs/${runId}/history?from=${pageFrom}&limit=${PAGE_SIZE}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to load the log');
+        return;
+      }
+      setEntries(data.entries || []);
+      setTotal(data.total);
+      setComplete(Boolean(data.complete));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading run log:', err);
+      setError('Failed to load the log due to a network error.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch, runId]);
+
+  useEffect(() => {
+    loadPage(from);
+  }, [from, loadPage]);
+
+  // The whole stored log as NDJSON, for replaying or keeping elsewhere
+  const downloadLog = async () => {
+    try {
+      const response = await authFetch(`/api/runs/${runId}/history?format=ndjson`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.message || 'Download failed');
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${runId}.ndjson`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading run log:', err);
+      setError('Download failed due to a network error.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-md overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700 bg-gray-800 text-xs text-gray-400">
+        <h3 className="text-sm font-medium text-gray-200">Stored log</h3>
+        <span>
+          {total ? `Lines ${from + 1}-${from + entries.length} of ${total}` : 'Empty'}
+          {!complete && ' (incomplete)'}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={() => setFrom(Math.max(0, from - PAGE_SIZE))}
+            disabled={isLoading || from === 0}
+            className="text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <button
+            type="button"
+            onClick={() => setFrom(from + PAGE_SIZE)}
+            disabled={isLoading || from + PAGE_SIZE >= total}
+            className="text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+          >
+            Next
+          </button>
+          <button
+            type="button"
+            onClick={downloadLog}
+            disabled={!total}
+            className="text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="px-3 py-2 text-xs text-red-400">{error}</p>}
+
+      <div className="max-h-[300px] overflow-y-auto font-mono text-xs p-2 bg-gray-900 custom-scrollbar">
+        {!isLoading && !entries.length && !error && (
+          <div className="text-gray-500 italic p-2">No output was stored for this run.</div>
+        )}
+        <div className="space-y-1">
+          {entries.map(entry => (
+            <div
+              key={entry.seq}
+              ref={entry.seq === highlightSeq ? element => element?.scrollIntoView({ block: 'center' }) : undefined}
+              className={`flex ${entry.seq === highlightSeq ? 'bg-yellow-900/40' : ''}`}
+            >
+              <span className="text-gray-500 mr-2">[{new Date(entry.ts).toLocaleTimeString()}]</span>
+              <span className={`${getLineStyle(entry.type)} whitespace-pre-wrap break-all`}>{entry.message}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import RunMetricsCharts from './runMetricsCharts';
+
+interface RunMetricsProps {
+  runId: string;
+}
+
+// Charts of the metric series saved with a run
+export default function RunMetrics({ runId }: RunMetricsProps) {
+  const { authFetch } = useAuth();
+  const [series, setSeries] = useState<Record<string, [number, number][]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMetrics = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await authFetch(`/api/runs/${runId}/metrics`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to load metrics');
+        return;
+      }
+      setSeries(data.metrics || {});
+      setError(null);
+    } catch (err) {
+      console.error('Error loading run metrics:', err);
+      setError('Failed to load metrics due to a network error.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch, runId]);
+
+  useEffect(() => {
+    loadMetrics();
+  }, [loadMetrics]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-gray-300">Metrics</span>
+        <button
+          type="button"
+          onClick={loadMetrics}
+          disabled={isLoading}
+          className="ml-auto text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {!isLoading && !error && !Object.keys(series).length && (
+        <p className="text-gray-500">No metrics found in the run&apos;s output yet.</p>
+      )}
+
+      <RunMetricsCharts series={series} />
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client'
+
+interface RunMetricsChartsProps {
+  // [step, value] points per metric, in the order they were found
+  series: Record<string, [number, number][]>;
+}
+
+const WIDTH = 240;
+const HEIGHT = 90;
+const PADDING = 4;
+
+function formatValue(value: number): string {
+  if (value !== 0 && (Math.abs(value) >= 1e5 || Math.abs(value) < 1e-3)) {
+    return value.toExponential(2);
+  }
+  return Number(value.toPrecision(4)).toString();
+}
+
+function MetricChart({ name, points }: { name: string; points: [number, number][] }) {
+  const steps = points.map(([step]) => step);
+  const values = points.map(([, value]) => value);
+  const minStep = Math.min(...steps);
+  const maxStep = Math.max(...steps);
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+
+  // A single point or a flat line sits in the middle
+  const x = (step: number) => PADDING + (maxStep > minStep ? (step - minStep) / (maxStep - minStep) : 0.5) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => PADDING + (maxValue > minValue ? (maxValue - value) / (maxValue - minValue) : 0.5) * (HEIGHT - 2 * PADDING);
+  const line = points.map(([step, value]) => `${x(step).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  const [lastStep, lastValue] = points[points.length - 1];
+
+  return (
+    <div className="border border-gray-700 rounded-md bg-gray-900 p-2">
+      <div className="flex justify-between text-xs mb-1">
+        <span className="font-mono text-gray-200 truncate" title={name}>{name}</span>
+        <span className="text-gray-400 whitespace-nowrap ml-2" title={`at step ${lastStep}`}>{formatValue(lastValue)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${name} by step`}>
+        <polyline points={line} fill="none" stroke="currentColor" strokeWidth="1.5" className="text-blue-400" />
+        {points.length === 1 && <circle cx={x(lastStep)} cy={y(lastValue)} r="2" className="fill-blue-400" />}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{formatValue(minValue)} - {formatValue(maxValue)}</span>
+        <span>step {formatValue(minStep)} - {formatValue(maxStep)}</span>
+      </div>
+    </div>
+  );
+}
+
+// A small line chart per metric
+export default function RunMetricsCharts({ series }: RunMetricsChartsProps) {
+  const metrics = Object.entries(series).filter(([, points]) => points.length > 0);
+  if (!metrics.length) {
+    return null;
+  }
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {metrics.map(([name, points]) => <MetricChart key={name} name={name} points={points} />)}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+'use client'
+import { useMemo, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+interface SweepLauncherProps {
+  // Config template (JSON text) and the file name every run gets it under
+  template: string;
+  fileName: string;
+  // Run request fields shared by every run of the sweep (remoteDir, nodeId, backend, ...)
+  runFields: Record<string, string>;
+  disabled?: boolean;
+}
+
+type SweepAxis = {
+  path: string;
+  // "0.001, 0.01, 0.1" or a range "start:stop[:step]" (stop included)
+  values: string;
+};
+
+type SweepRun = {
+  name: string;
+  values: Record<string, unknown>;
+  config: unknown;
+};
+
+type LaunchResult = {
+  name: string;
+  status: 'pending' | 'launched' | 'error';
+  message?: string;
+};
+
+// Keep in step with MAX_SWEEP_RUNS in app/lib/runSweeps.ts
+const MAX_SWEEP_RUNS = 100;
+
+// Paths of the template's values that can be swept, e.g. "modelParams.learning_rate"
+function listLeafPaths(value: unknown, prefix = ''): string[] {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, child]) => listLeafPaths(child, prefix ? `${prefix}.${key}` : key));
+  }
+  return prefix ? [prefix] : [];
+}
+
+function parseValue(text: string): unknown {
+  const trimmed = text.trim().replace(/^"(.*)"$/, '$1');
+  if (/^-?\d*\.?\d+([eE][+-]?\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null') return null;
+  return trimmed;
+}
+
+// Values of one axis, or an error message
+function parseAxisValues(spec: string): unknown[] | string {
+  const range = spec.trim().match(/^(-?[\d.eE+-]+):(-?[\d.eE+-]+)(?::(-?[\d.eE+-]+))?$/);
+  if (range) {
+    const [start, stop, step] = [Number(range[1]), Number(range[2]), range[3] === undefined ? 1 : Number(range[3])];
+    if ([start, stop, step].some(Number.isNaN) || step <= 0 || stop < start) {
+      return 'Ranges are start:stop[:step] with stop >= start and a positive step';
+    }
+    const values: number[] = [];
+    // Rounded so 0.1 steps don't drift into 0.30000000000000004
+    for (let i = 0; start + i * step <= stop + step * 1e-9 && values.length <= MAX_SWEEP_RUNS; i++) {
+      values.push(Number((start + i * step).toPrecision(12)));
+    }
+    return values;
+  }
+
+  const values = spec.split(',').map(item => item.trim()).filter(Boolean).map(parseValue);
+  return values.length ? values : 'Enter a comma-separated list or a range';
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach(key => {
+    node = node[key] as Record<string, unknown>;
+  });
+  node[keys[keys.length - 1]] = value;
+}
+
+type ConfigTemplate = {
+  gitParams?: { branchName?: string };
+  gitParms?: { branchName?: string };
+  branchName?: string;
+};
+
+// Where /api/model-run looks for the branch name, falling back to the file name
+function branchNameOf(config: ConfigTemplate | null, fileName: string): string {
+  return config?.gitParams?.branchName || config?.gitParms?.branchName || config?.branchName
+    || fileName.replace(/\.[^/.]+$/, '');
+}
+
+// Same cleanup /api/model-run applies, so names can be checked for clashes here
+function cleanRunName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 50);
+}
+
+// Every combination of the axes' values, each with its own config and run name
+function expandSweep(template: ConfigTemplate, fileName: string, axes: { path: string; values: unknown[] }[]): SweepRun[] {
+  let combinations: Record<string, unknown>[] = [{}];
+  for (const axis of axes) {
+    combinations = combinations.flatMap(combination => axis.values.map(value => ({ ...combination, [axis.path]: value })));
+  }
+
+  const branchName = branchNameOf(template, fileName);
+  const seen = new Set<string>();
+  return combinations.map((values, index) => {
+    const config = JSON.parse(JSON.stringify(template));
+    Object.entries(values).forEach(([path, value]) => setPath(config, path, value));
+
+    let name = cleanRunName([branchName, ...Object.values(values).map(String)].join('-'));
+    if (seen.has(name)) {
+      name = cleanRunName(`${name.substring(0, 45)}-${index + 1}`);
+    }
+    seen.add(name);
+    return { name, values, config };
+  });
+}
+
+export default function SweepLauncher({ template, fileName, runFields, disabled }: SweepLauncherProps) {
+  const { authFetch } = useAuth();
+  const [axes, setAxes] = useState<SweepAxis[]>([{ path: '', values: '' }]);
+  const [results, setResults] = useState<LaunchResult[]>([]);
+  const [isLaunching, setIsLaunching] = useState(false);
+
+  const parsedTemplate = useMemo((): ConfigTemplate | null => {
+    try {
+      return JSON.parse(template);
+    } catch {
+      return null;
+    }
+  }, [template]);
+  const leafPaths = useMemo(() => listLeafPaths(parsedTemplate), [parsedTemplate]);
+
+  const preview = useMemo((): { runs: SweepRun[]; error?: string } => {
+    if (!parsedTemplate) return { runs: [], error: 'The config is not valid JSON' };
+    const parsedAxes = [];
+    for (const axis of axes) {
+      if (!axis.path) continue;
+      const values = parseAxisValues(axis.values);
+      if (typeof values === 'string') return { runs: [], error: `${axis.path}: ${values}` };
+      parsedAxes.push({ path: axis.path, values });
+    }
+    if (!parsedAxes.length) return { runs: [], error: 'Pick at least one field to sweep' };
+    if (new Set(parsedAxes.map(axis => axis.path)).size !== parsedAxes.length) {
+      return { runs: [], error: 'Each field can only be swept once' };
+    }
+    const total = parsedAxes.reduce((count, axis) => count * axis.values.length, 1);
+    if (total > MAX_SWEEP_RUNS) return { runs: [], error: `${total} runs is more than the ${MAX_SWEEP_RUNS} a sweep may launch` };
+    return { runs: expandSweep(parsedTemplate, fileName, parsedAxes) };
+  }, [parsedTemplate, fileName, axes]);
+
+  const updateAxis = (index: number, changes: Partial<SweepAxis>) => {
+    setAxes(axes.map((axis, i) => i === index ? { ...axis, ...changes } : axis));
+  };
+
+  // Launch one run and stop reading once the server has registered it; the run carries on
+  const launchRun = async (run: SweepRun, index: number, sweepId: string, label: string): Promise<LaunchResult> => {
+    const formData = new FormData();
+    Object.entries(runFields).forEach(([key, value]) => formData.append(key, value));
+    formData.append('file', new File([JSON.stringify(run.config, null, 2)], fileName, { type: 'application/json' }));
+    formData.append('runName', run.name);
+    formData.append('sweepId', sweepId);
+    formData.append('sweepLabel', label);
+    formData.append('sweepIndex', String(index));
+    formData.append('sweepTotal', String(preview.runs.length));
+    formData.append('sweepValues', JSON.stringify(run.values));
+
+    const abortController = new AbortController();
+    try {
+      const response = await authFetch('/api/model-run', { method: 'POST', body: formData, signal: abortController.signal });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        return { name: run.name, status: 'error', message: data.message || `Server error: ${response.status}` };
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const message = JSON.parse(line);
+          if (message.runId) return { name: run.name, status: 'launched', message: `Run ${message.runId}` };
+          if (message.type === 'error') return { name: run.name, status: 'error', message: message.message };
+        }
+      }
+      return { name: run.name, status: 'error', message: 'The server did not register the run' };
+    } catch (error) {
+      return { name: run.name, status: 'error', message: error instanceof Error ? error.message : String(error) };
+    } finally {
+      abortController.abort();
+    }
+  };
+
+  const handleLaunch = async () => {
+    const runs = preview.runs;
+    if (!runs.length || !window.confirm(`Launch ${runs.length} runs? Runs past your concurrency limit wait in the queue.`)) {
+      return;
+    }
+
+    const sweepId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const label = branchNameOf(parsedTemplate, fileName);
+    setIsLaunching(true);
+    setResults(runs.map(run => ({ name: run.name, status: 'pending' })));
+    for (const [index, run] of runs.entries()) {
+      const result = await launchRun(run, index, sweepId, label);
+      setResults(prev => prev.map((item, i) => i === index ? result : item));
+    }
+    setIsLaunching(false);
+    document.dispatchEvent(new CustomEvent('runsUpdated'));
+  };
+
+  const resultStyles = {
+    pending: 'text-gray-400',
+    launched: 'text-green-400',
+    error: 'text-red-400',
+  };
+
+  return (
+    <div className="border border-gray-700/50 rounded p-3 bg-gray-800/30 space-y-2">
+      <p className="text-xs text-gray-400">
+        Pick config fields to sweep and give each a list (<span className="font-mono">0.001, 0.01</span>) or
+        a range (<span className="font-mono">16:64:16</span>). Every combination is launched as its own run.
+      </p>
+
+      {axes.map((axis, index) => (
+        <div key={index} className="flex gap-2">
+          <select
+            value={axis.path}
+            onChange={(e) => updateAxis(index, { path: e.target.value })}
+            className="w-1/2 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white font-mono text-xs"
+          >
+            <option value="">Select a field...</option>
+            {leafPaths.map(path => (
+              <option key={path} value={path}>{path}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={axis.values}
+            onChange={(e) => updateAxis(index, { values: e.target.value })}
+            placeholder="0.001, 0.01 or 16:64:16"
+            className="flex-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white font-mono text-xs"
+          />
+          <button
+            type="button"
+            onClick={() => setAxes(axes.length > 1 ? axes.filter((_, i) => i !== index) : [{ path: '', values: '' }])}
+            className="text-xs text-gray-400 hover:text-white px-1"
+            title="Remove this axis"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setAxes([...axes, { path: '', values: '' }])}
+        className="text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+      >
+        Add axis
+      </button>
+
+      {preview.error ? (
+        <p className="text-xs text-gray-400 italic">{preview.error}</p>
+      ) : (
+        <div className="max-h-[200px] overflow-y-auto custom-scrollbar">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-1 pr-2 font-medium">Run</th>
+                {Object.keys(preview.runs[0].values).map(path => (
+                  <th key={path} className="py-1 pr-2 font-medium font-mono">{path.split('.').pop()}</th>
+                ))}
+                <th className="py-1 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.runs.map((run, index) => (
+                <tr key={run.name} className="border-b border-gray-800">
+                  <td className="py-1 pr-2 text-gray-200 font-mono truncate max-w-[12rem]" title={run.name}>{run.name}</td>
+                  {Object.values(run.values).map((value, i) => (
+                    <td key={i} className="py-1 pr-2 text-gray-300 font-mono">{JSON.stringify(value)}</td>
+                  ))}
+                  <td className={`py-1 ${results[index] ? resultStyles[results[index].status] : ''}`} title={results[index]?.message}>
+                    {results[index]?.status === 'pending' ? '…' : results[index]?.message || ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleLaunch}
+        disabled={disabled || isLaunching || !preview.runs.length}
+        className="w-full py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLaunching ? 'Launching sweep...' : `Launch sweep (${preview.runs.length} runs)`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { RefreshCw } from 'lucide-react';
+
+type WorkspaceFolder = {
+  path: string;
+  name: string;
+  runName: string;
+  createdAt: number;
+  sizeBytes: number;
+  runId?: string;
+  runStatus?: string;
+  pinned: boolean;
+};
+
+type RetentionPolicy = {
+  keepLastPerRunName: number;
+  maxAgeDays: number;
+  keepPinned: boolean;
+};
+
+type RetentionResult = {
+  dryRun: boolean;
+  removals: { folder: WorkspaceFolder; reason: string }[];
+  deleted: string[];
+  failed: { path: string; message: string }[];
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+function describePolicy(policy: RetentionPolicy): string {
+  const limits = [
+    policy.keepLastPerRunName > 0 && `keeps the ${policy.keepLastPerRunName} newest folders per run name`,
+    policy.maxAgeDays > 0 && `deletes folders older than ${policy.maxAgeDays} days`,
+  ].filter(Boolean);
+  if (!limits.length) {
+    return 'No retention policy is configured; folders are only deleted by hand.';
+  }
+  return `Scheduled cleanup ${limits.join(' and ')}${policy.keepPinned ? ', except for pinned runs' : ''}.`;
+}
+
+export default function WorkspaceManager() {
+  const { connectionDetails, authFetch, clearAuth } = useAuth();
+  const [folders, setFolders] = useState<WorkspaceFolder[]>([]);
+  const [roots, setRoots] = useState<string[]>([]);
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<RetentionResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadFolders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await authFetch('/api/workspaces');
+      if (response.status === 401) {
+        clearAuth();
+        return;
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to list workspaces');
+        return;
+      }
+      setFolders(data.folders || []);
+      setRoots(data.roots || []);
+      setPolicy(data.retention || null);
+      setSelected(new Set());
+      setError(null);
+    } catch (err) {
+      console.error('Error listing workspaces:', err);
+      setError('Failed to list workspaces due to a network error.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authFetch, clearAuth]);
+
+  useEffect(() => {
+    if (connectionDetails.isAuthenticated) {
+      loadFolders();
+    }
+  }, [connectionDetails.isAuthenticated, loadFolders]);
+
+  // Report what happened and refresh both the folders and the run list
+  const finishChange = (deleted: string[], failed: RetentionResult['failed']) => {
+    setNotice(`Deleted ${deleted.length} folder(s).`);
+    setError(failed.length ? failed.map(item => `${item.path}: ${item.message}`).join('\n') : null);
+    document.dispatchEvent(new CustomEvent('runsUpdated'));
+    loadFolders();
+  };
+
+  const deleteSelected = async () => {
+    if (!window.confirm(`Delete ${selected.size} folder(s) and everything in them? This cannot be undone.`)) {
+      return;
+    }
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      const response = await authFetch('/api/workspaces/delete', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paths: [...selected] })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to delete folders');
+        return;
+      }
+      setPreview(null);
+      finishChange(data.deleted, data.failed);
+    } catch (err) {
+      console.error('Error deleting folders:', err);
+      setError('Failed to delete folders due to a network error.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // A dry run lists what the policy would delete; applying it deletes those folders
+  const runCleanup = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(`Delete the ${preview?.removals.length ?? 0} folder(s) listed by the preview?`)) {
+      return;
+    }
+    setIsBusy(true);
+    setNotice(null);
+    try {
+      const response = await authFetch('/api/workspaces/cleanup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || 'Failed to apply the retention policy');
+        return;
+      }
+      if (dryRun) {
+        setPreview(data);
+        setError(null);
+      } else {
+        setPreview(null);
+        finishChange(data.deleted, data.failed);
+      }
+    } catch (err) {
+      console.error('Error applying the retention policy:', err);
+      setError('Failed to apply the retention policy due to a network error.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleSelected = (folderPath: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(folderPath)) {
+        next.delete(folderPath);
+      } else {
+        next.add(folderPath);
+      }
+      return next;
+    });
+  };
+
+  const totalSize = folders.reduce((total, folder) => total + folder.sizeBytes, 0);
+  const isProtected = (folder: WorkspaceFolder) => folder.pinned || folder.runStatus === 'running' || folder.runStatus === 'queued';
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center border-b border-gray-700 mb-3 pb-3">
+        <h2 className="text-lg font-medium text-gray-200">Workspaces</h2>
+        <button
+          type="button"
+          onClick={loadFolders}
+          disabled={isLoading}
+          className="flex items-center text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+          title="Refresh folders"
+        >
+          <RefreshCw className={`h-3 w-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="mb-3 text-xs text-gray-400 space-y-1">
+        <p>
+          {folders.length} isolated folder(s), {formatSize(totalSize)} in{' '}
+          <span className="font-mono text-gray-300 break-all">{roots.join(', ') || '...'}</span>
+        </p>
+        {policy && <p>{describePolicy(policy)}</p>}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 border rounded-md bg-red-900/50 border-red-700">
+          <p className="text-sm text-red-400 whitespace-pre-line">{error}</p>
+        </div>
+      )}
+      {notice && <p className="mb-3 text-sm text-green-400">{notice}</p>}
+
+      <div className="flex gap-2 mb-3">
+        <button
+          type="button"
+          onClick={deleteSelected}
+          disabled={isBusy || !selected.size}
+          className="text-xs text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded disabled:opacity-50"
+        >
+          Delete selected{selected.size ? ` (${selected.size})` : ''}
+        </button>
+        <button
+          type="button"
+          onClick={() => runCleanup(true)}
+          disabled={isBusy}
+          className="text-xs text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+          title="List what the retention policy would delete, without deleting anything"
+        >
+          Preview cleanup
+        </button>
+      </div>
+
+      {preview && (
+        <div className="mb-3 p-3 border rounded-md border-gray-700 bg-gray-800/50 text-xs text-gray-400 space-y-1">
+          {preview.removals.length ? (
+            <>
+              <p className="text-gray-300">The retention policy would delete {preview.removals.length} folder(s), {formatSize(preview.removals.reduce((total, removal) => total + removal.folder.sizeBytes, 0))}:</p>
+              {preview.removals.map(removal => (
+                <p key={removal.folder.path}>
+                  <span className="font-mono text-gray-300">{removal.folder.name}</span> - {removal.reason}
+                </p>
+              ))}
+              <button
+                type="button"
+                onClick={() => runCleanup(false)}
+                disabled={isBusy}
+                className="mt-1 text-xs text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded disabled:opacity-50"
+              >
+                Apply cleanup now
+              </button>
+            </>
+          ) : (
+            <p>The retention policy would not delete anything right now.</p>
+          )}
+        </div>
+      )}
+
+      {!isLoading && !folders.length && !error ? (
+        <p className="text-sm text-gray-500">No isolated run folders found.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-gray-400 border-b border-gray-700">
+              <tr>
+                <th className="py-2 pr-2 w-4"></th>
+                <th className="py-2 pr-2">Folder</th>
+                <th className="py-2 pr-2">Created</th>
+                <th className="py-2 pr-2">Size</th>
+                <th className="py-2">Run</th>
+              </tr>
+            </thead>
+            <tbody>
+              {folders.map(folder => (
+                <tr key={folder.path} className="border-b border-gray-800">
+                  <td className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(folder.path)}
+                      onChange={() => toggleSelected(folder.path)}
+                      disabled={isProtected(folder)}
+                      title={isProtected(folder) ? 'Folders of pinned, queued or running runs cannot be deleted' : undefined}
+                      aria-label={`Select ${folder.name}`}
+                    />
+                  </td>
+                  <td className="py-2 pr-2 font-mono text-gray-200 truncate max-w-[14rem]" title={folder.path}>{folder.name}</td>
+                  <td className="py-2 pr-2 text-gray-400">{new Date(folder.createdAt).toLocaleString()}</td>
+                  <td className="py-2 pr-2 text-gray-400 whitespace-nowrap">{formatSize(folder.sizeBytes)}</td>
+                  <td className="py-2 text-gray-400">
+                    {folder.runStatus ?? <span className="text-gray-600">unknown</span>}
+                    {folder.pinned && <span className="text-yellow-400"> · pinned</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// Admin access for maintenance endpoints such as /api/admin/known-hosts.
+// Admin requests carry the X-Admin-Token header, which must match $VMES_ADMIN_TOKEN.
+// When that variable is not set, the admin endpoints are disabled.
+import { NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+
+export function isAdminConfigured(): boolean {
+  return Boolean(process.env.VMES_ADMIN_TOKEN);
+}
+
+export function isAdminRequest(request: Request): boolean {
+  const expected = process.env.VMES_ADMIN_TOKEN;
+  const provided = request.headers.get('x-admin-token');
+  if (!expected || !provided) {
+    return false;
+  }
+
+  // Compare digests so the comparison is constant-time regardless of input length
+  const expectedDigest = createHash('sha256').update(expected).digest();
+  const providedDigest = createHash('sha256').update(provided).digest();
+  return timingSafeEqual(expectedDigest, providedDigest);
+}
+
+// Guard for admin routes: returns the error response to send, or null if the caller is an admin
+export function requireAdmin(request: Request): NextResponse | null {
+  if (!isAdminConfigured()) {
+    return NextResponse.json(
+      { error: true, message: 'Admin API is disabled. Set VMES_ADMIN_TOKEN to enable it.' },
+      { status: 403 }
+    );
+  }
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: true, message: 'Invalid admin token' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
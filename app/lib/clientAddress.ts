@@ -0,0 +1,33 @@
+// Address of the socket a request came in on
+//
+// Route handlers only see a request's headers, and the X-Forwarded-For header Next.js
+// fills in from the socket is kept as sent when the client brings its own. So every
+// incoming request has the socket's address written to CLIENT_ADDRESS_HEADER before
+// Next.js sees it, overwriting anything the client sent under that name. Installed once
+// per server process from instrumentation.ts.
+import * as http from 'http';
+import * as https from 'https';
+
+export const CLIENT_ADDRESS_HEADER = 'x-vmes-client-address';
+
+const globalForClientAddress = globalThis as unknown as {
+  vmesClientAddressRecorded?: boolean;
+};
+
+export function recordClientAddresses(): void {
+  if (globalForClientAddress.vmesClientAddressRecorded) {
+    return;
+  }
+  globalForClientAddress.vmesClientAddressRecorded = true;
+
+  for (const server of [http.Server, https.Server]) {
+    const emit = server.prototype.emit;
+    server.prototype.emit = function (this: http.Server, event: string | symbol, ...args: unknown[]) {
+      if (event === 'request') {
+        const request = args[0] as http.IncomingMessage;
+        request.headers[CLIENT_ADDRESS_HEADER] = request.socket.remoteAddress || '';
+      }
+      return Reflect.apply(emit, this, [event, ...args]);
+    } as typeof emit;
+  }
+}
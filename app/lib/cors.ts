@@ -0,0 +1,59 @@
+// Origin policy for the API: CORS allowlist and cross-site request (CSRF) checks
+//
+// Used by middleware.ts, which runs in the edge runtime, so this module must not touch
+// the filesystem or the server config file. Extra origins allowed to call the API from
+// a browser are listed in $VMES_ALLOWED_ORIGINS, comma separated
+// (e.g. "https://mlflow.example.org,http://localhost:5000"). The app's own origin is
+// always allowed.
+
+const STATE_CHANGING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// The origin the browser sees for this app. Behind a reverse proxy request.url has the
+// internal address, so the forwarded host and protocol take precedence.
+export function getOwnOrigin(request: Request): string {
+  const url = new URL(request.url);
+  const host = request.headers.get('x-forwarded-host') || request.headers.get('host') || url.host;
+  const protocol = request.headers.get('x-forwarded-proto') || url.protocol.replace(/:$/, '');
+  return `${protocol.split(',')[0].trim()}://${host.split(',')[0].trim()}`;
+}
+
+export function getAllowedOrigins(): string[] {
+  return (process.env.VMES_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+export function isAllowedOrigin(origin: string, ownOrigin: string): boolean {
+  return origin === ownOrigin || getAllowedOrigins().includes(origin);
+}
+
+// CORS headers for a response to the given request origin. Empty for same-origin
+// requests and for origins that are not on the allowlist.
+export function corsHeaders(origin: string | null, ownOrigin: string): Record<string, string> {
+  if (!origin || origin === ownOrigin || !isAllowedOrigin(origin, ownOrigin)) {
+    return {};
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Admin-Token',
+    'Access-Control-Max-Age': '600',
+    'Vary': 'Origin',
+  };
+}
+
+// A state-changing request that a browser sent on behalf of another site. Browsers send
+// Origin on cross-origin POSTs; Sec-Fetch-Site covers the cases where they don't.
+export function isCrossSiteRequest(request: Request, ownOrigin: string): boolean {
+  if (!STATE_CHANGING_METHODS.includes(request.method.toUpperCase())) {
+    return false;
+  }
+
+  const origin = request.headers.get('origin');
+  if (origin) {
+    return !isAllowedOrigin(origin, ownOrigin);
+  }
+
+  return request.headers.get('sec-fetch-site') === 'cross-site';
+}
@@ -0,0 +1,89 @@
+// Named SSH host profiles defined in the server config (see serverConfig.ts)
+import { ComputeNode, getServerConfig, HostProfile, SlurmConfig } from './serverConfig';
+
+export type { ComputeNode, HostProfile, SlurmConfig };
+
+const defaultSlurmConfig: SlurmConfig = {
+  partitions: [],
+  defaultTimeLimit: '01:00:00',
+  defaultCpus: 4,
+  defaultMemory: '16G',
+  defaultGpus: 0,
+  commands: {
+    sbatch: 'sbatch',
+    squeue: 'squeue',
+    sacct: 'sacct',
+    scancel: 'scancel',
+  },
+};
+
+// Host details that are safe to send to the browser
+export interface PublicHostProfile {
+  id: string;
+  label: string;
+  address: string;
+  port: number;
+  computeNodes: PublicComputeNode[];
+  // Choices for SLURM submission, when the host has a scheduler
+  slurm: PublicSlurmConfig | null;
+  // Whether logins may use the host's configured ssh-agent (the socket path stays private)
+  sshAgent: boolean;
+}
+
+export interface PublicComputeNode {
+  id: string;
+  label: string;
+}
+
+export type PublicSlurmConfig = Omit<SlurmConfig, 'commands'>;
+
+export function getHostProfiles(): HostProfile[] {
+  return getServerConfig().hosts.map(host => ({
+    ...host,
+    port: host.port || 22,
+    computeNodes: (host.computeNodes || []).map(node => ({ ...node, port: node.port || 22 })),
+    ...(host.slurm && {
+      slurm: {
+        ...defaultSlurmConfig,
+        ...host.slurm,
+        commands: { ...defaultSlurmConfig.commands, ...host.slurm.commands },
+      },
+    }),
+  }));
+}
+
+export function getHostProfile(hostId: string | undefined): HostProfile | undefined {
+  return getHostProfiles().find(host => host.id === hostId);
+}
+
+export function getComputeNode(host: HostProfile, nodeId: string | undefined): ComputeNode | undefined {
+  return host.computeNodes?.find(node => node.id === nodeId);
+}
+
+export function toPublicHostProfile(host: HostProfile): PublicHostProfile {
+  return {
+    id: host.id,
+    label: host.label,
+    address: host.address,
+    port: host.port,
+    computeNodes: (host.computeNodes || []).map(node => ({ id: node.id, label: node.label })),
+    slurm: host.slurm ? {
+      partitions: host.slurm.partitions,
+      defaultTimeLimit: host.slurm.defaultTimeLimit,
+      defaultCpus: host.slurm.defaultCpus,
+      defaultMemory: host.slurm.defaultMemory,
+      defaultGpus: host.slurm.defaultGpus,
+    } : null,
+    sshAgent: Boolean(host.agentSocket),
+  };
+}
+
+// Expand the "{user}" placeholder in a profile's default paths
+export function resolveHostPaths(host: HostProfile, username: string): Required<HostProfile['paths']> {
+  return {
+    upload: host.paths.upload.replace(/\{user\}/g, username),
+    source: host.paths.source.replace(/\{user\}/g, username),
+    workspace: host.paths.workspace.replace(/\{user\}/g, username),
+    files: (host.paths.files || '/home/{user}').replace(/\{user\}/g, username),
+  };
+}
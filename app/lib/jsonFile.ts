@@ -0,0 +1,25 @@
+// Small helpers for JSON files the server uses as persistent storage
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Read and parse a JSON file, falling back when it is missing or unreadable
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return fallback;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    console.error(`Failed to read ${filePath}, starting empty:`, error);
+    return fallback;
+  }
+}
+
+// Write a JSON file atomically (temp file + rename) so a crash never leaves it half-written.
+// Files are created readable by the server user only since several of them hold credentials.
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
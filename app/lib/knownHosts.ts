@@ -0,0 +1,138 @@
+// Server-side known_hosts store used to verify SSH host keys
+//
+// Every SSH connection checks the host key it is offered against the key pinned for
+// that address:port. A key seen for the first time is recorded as "pending" and, unless
+// knownHosts.requireApproval is turned off, has to be approved by an admin through
+// /api/admin/known-hosts before connections are allowed (trust-on-first-use with approval).
+import { createHash } from 'crypto';
+import { getServerConfig, resolveDataPath } from './serverConfig';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+export type KnownHostStatus = 'pending' | 'trusted';
+
+export interface KnownHostEntry {
+  // "address:port" the key belongs to
+  host: string;
+  keyType: string;
+  // OpenSSH-style fingerprint, e.g. "SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8"
+  fingerprint: string;
+  status: KnownHostStatus;
+  firstSeen: number;
+  approvedAt?: number;
+  // Most recent different key offered for this host, kept so an admin can review it
+  lastMismatch?: { fingerprint: string; seenAt: number };
+}
+
+export type HostKeyErrorCode = 'HOST_KEY_MISMATCH' | 'HOST_KEY_UNTRUSTED';
+
+// Why a host key was refused, reported back to the caller in place of ssh2's generic error
+export interface HostKeyFailure {
+  code: HostKeyErrorCode;
+  host: string;
+  fingerprint: string;
+  expectedFingerprint?: string;
+}
+
+function getStorePath(): string {
+  return resolveDataPath(getServerConfig().knownHosts.filePath);
+}
+
+function readEntries(): Record<string, KnownHostEntry> {
+  return readJsonFile<Record<string, KnownHostEntry>>(getStorePath(), {});
+}
+
+function writeEntries(entries: Record<string, KnownHostEntry>): void {
+  writeJsonFile(getStorePath(), entries);
+}
+
+export function hostKeyId(address: string, port: number): string {
+  return `${address}:${port}`;
+}
+
+// Same format as `ssh-keygen -l -E sha256`
+export function fingerprintHostKey(key: Buffer): string {
+  return `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+// The key blob starts with its algorithm name as an SSH string (uint32 length + bytes)
+function readKeyType(key: Buffer): string {
+  if (key.length < 4) {
+    return 'unknown';
+  }
+  const length = key.readUInt32BE(0);
+  return key.subarray(4, 4 + length).toString('ascii') || 'unknown';
+}
+
+export function listKnownHosts(): KnownHostEntry[] {
+  return Object.values(readEntries()).sort((a, b) => a.host.localeCompare(b.host));
+}
+
+// Check an offered host key, recording it if the host has never been seen before.
+// Returns null when the connection may proceed.
+export function checkHostKey(address: string, port: number, key: Buffer): HostKeyFailure | null {
+  const host = hostKeyId(address, port);
+  const fingerprint = fingerprintHostKey(key);
+  const entries = readEntries();
+  const entry = entries[host];
+
+  if (!entry) {
+    const { requireApproval } = getServerConfig().knownHosts;
+    entries[host] = {
+      host,
+      keyType: readKeyType(key),
+      fingerprint,
+      status: requireApproval ? 'pending' : 'trusted',
+      firstSeen: Date.now(),
+      ...(!requireApproval && { approvedAt: Date.now() }),
+    };
+    writeEntries(entries);
+    console.log(`Recorded new host key for ${host}: ${fingerprint} (${entries[host].status})`);
+    return requireApproval ? { code: 'HOST_KEY_UNTRUSTED', host, fingerprint } : null;
+  }
+
+  if (entry.fingerprint !== fingerprint) {
+    console.error(`HOST KEY MISMATCH for ${host}: expected ${entry.fingerprint}, got ${fingerprint}`);
+    entries[host] = { ...entry, lastMismatch: { fingerprint, seenAt: Date.now() } };
+    writeEntries(entries);
+    return { code: 'HOST_KEY_MISMATCH', host, fingerprint, expectedFingerprint: entry.fingerprint };
+  }
+
+  if (entry.status !== 'trusted') {
+    return { code: 'HOST_KEY_UNTRUSTED', host, fingerprint };
+  }
+
+  return null;
+}
+
+// Trust the given fingerprint for a host. Also used to replace a pinned key after a
+// legitimate host key rotation, so the fingerprint must be supplied explicitly.
+export function approveHostKey(host: string, fingerprint: string): KnownHostEntry | null {
+  const entries = readEntries();
+  const entry = entries[host];
+  if (!entry) {
+    return null;
+  }
+
+  const { lastMismatch, ...rest } = entry;
+  entries[host] = {
+    ...rest,
+    fingerprint,
+    status: 'trusted',
+    approvedAt: Date.now(),
+    // Keep the mismatch record unless it is the key being approved now
+    ...(lastMismatch && lastMismatch.fingerprint !== fingerprint && { lastMismatch }),
+  };
+  writeEntries(entries);
+  return entries[host];
+}
+
+// Forget a host entirely; the next connection records its key as pending again
+export function removeKnownHost(host: string): boolean {
+  const entries = readEntries();
+  if (!entries[host]) {
+    return false;
+  }
+  delete entries[host];
+  writeEntries(entries);
+  return true;
+}
@@ -0,0 +1,163 @@
+// Brute-force protection for the login and enrollment routes
+//
+// Failed attempts are counted per username and per client IP (when the IP is known,
+// see getClientIp). Once either reaches its
+// limit within the attempt window, further attempts are refused with a 429 until the
+// lockout expires. Each repeated lockout doubles in length (up to loginThrottle.maxLockoutMs).
+// State is kept in the data directory so a restart doesn't reset it.
+import { NextResponse } from 'next/server';
+import { getServerConfig, resolveDataPath } from './serverConfig';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { CLIENT_ADDRESS_HEADER } from './clientAddress';
+
+interface AttemptRecord {
+  // Failures since the last lockout (or since the window last expired)
+  failures: number;
+  lastFailureAt: number;
+  // Lockouts so far; drives the exponential backoff
+  lockouts: number;
+  lockedUntil?: number;
+}
+
+export interface LoginLockout {
+  scope: 'user' | 'ip';
+  lockedUntil: number;
+}
+
+function getStorePath(): string {
+  return resolveDataPath(getServerConfig().loginThrottle.filePath);
+}
+
+function readRecords(): Record<string, AttemptRecord> {
+  return readJsonFile<Record<string, AttemptRecord>>(getStorePath(), {});
+}
+
+// Records with no lockout and no recent failures are dropped on write
+function writeRecords(records: Record<string, AttemptRecord>, now: number): void {
+  const { attemptWindowMs, maxLockoutMs } = getServerConfig().loginThrottle;
+  const keepFor = Math.max(attemptWindowMs, maxLockoutMs);
+  for (const [key, record] of Object.entries(records)) {
+    if ((record.lockedUntil ?? 0) <= now && now - record.lastFailureAt > keepFor) {
+      delete records[key];
+    }
+  }
+  writeJsonFile(getStorePath(), records);
+}
+
+function recordKeys(username: string, ip: string): { scope: LoginLockout['scope']; key: string; limit: number }[] {
+  const { maxAttemptsPerUser, maxAttemptsPerIp } = getServerConfig().loginThrottle;
+  const keys: { scope: LoginLockout['scope']; key: string; limit: number }[] = [];
+  if (ip) {
+    keys.push({ scope: 'ip', key: `ip:${ip}`, limit: maxAttemptsPerIp });
+  }
+  if (username) {
+    keys.unshift({ scope: 'user', key: `user:${username}`, limit: maxAttemptsPerUser });
+  }
+  return keys;
+}
+
+// The caller's address. X-Forwarded-For is only read behind trusted proxies
+// (loginThrottle.trustedProxyHops), and then only the entries they added: anything
+// before those came from the client. Otherwise it is the socket address (see
+// clientAddress.ts). Empty when there is no address, which leaves only the per-user
+// limit: sharing one key would let a single client lock out everyone without one.
+export function getClientIp(request: Request): string {
+  const { trustedProxyHops } = getServerConfig().loginThrottle;
+  if (trustedProxyHops > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+    const address = forwarded[forwarded.length - trustedProxyHops];
+    if (address) {
+      return address;
+    }
+  }
+  const address = request.headers.get(CLIENT_ADDRESS_HEADER);
+  if (!address) {
+    console.warn('No client address for a login request; only the per-user limit applies');
+  }
+  return address || '';
+}
+
+// The active lockout for this username or IP, if any
+export function checkLoginLockout(username: string, ip: string, now: number = Date.now()): LoginLockout | null {
+  const records = readRecords();
+  for (const { scope, key } of recordKeys(username, ip)) {
+    const lockedUntil = records[key]?.lockedUntil;
+    if (lockedUntil && lockedUntil > now) {
+      return { scope, lockedUntil };
+    }
+  }
+  return null;
+}
+
+// Count a failed attempt. Returns the lockout it triggered, if any.
+export function recordLoginFailure(username: string, ip: string, now: number = Date.now()): LoginLockout | null {
+  const { attemptWindowMs, baseLockoutMs, maxLockoutMs } = getServerConfig().loginThrottle;
+  const records = readRecords();
+  let lockout: LoginLockout | null = null;
+
+  for (const { scope, key, limit } of recordKeys(username, ip)) {
+    const previous = records[key];
+    const idleFor = previous ? now - previous.lastFailureAt : Infinity;
+    const record: AttemptRecord = {
+      // Old failures expire with the window; the backoff level only after a long quiet period
+      failures: idleFor > attemptWindowMs ? 0 : previous?.failures ?? 0,
+      lockouts: idleFor > maxLockoutMs ? 0 : previous?.lockouts ?? 0,
+      lastFailureAt: now,
+      ...(previous?.lockedUntil && previous.lockedUntil > now && { lockedUntil: previous.lockedUntil }),
+    };
+    record.failures++;
+
+    if (record.failures >= limit) {
+      const duration = Math.min(baseLockoutMs * 2 ** record.lockouts, maxLockoutMs);
+      record.lockouts++;
+      record.failures = 0;
+      record.lockedUntil = now + duration;
+      console.warn(`Login locked for ${key} for ${Math.round(duration / 1000)}s after repeated failures`);
+      if (!lockout || record.lockedUntil > lockout.lockedUntil) {
+        lockout = { scope, lockedUntil: record.lockedUntil };
+      }
+    }
+    records[key] = record;
+  }
+
+  writeRecords(records, now);
+  return lockout;
+}
+
+// A successful login clears the username's history and the IP's pending failures
+export function recordLoginSuccess(username: string, ip: string, now: number = Date.now()): void {
+  const records = readRecords();
+  const userKey = `user:${username}`;
+  const ipKey = ip ? `ip:${ip}` : '';
+  if (!records[userKey] && !records[ipKey]?.failures) {
+    return;
+  }
+
+  delete records[userKey];
+  if (ipKey && records[ipKey]) {
+    records[ipKey] = { ...records[ipKey], failures: 0 };
+  }
+  writeRecords(records, now);
+}
+
+// 429 with a Retry-After header; the auth page shows a countdown from retryAfter
+export function loginLockedResponse(lockout: LoginLockout, now: number = Date.now()): NextResponse {
+  const retryAfter = Math.max(1, Math.ceil((lockout.lockedUntil - now) / 1000));
+  const subject = lockout.scope === 'user' ? 'this account' : 'your network address';
+  return NextResponse.json(
+    {
+      error: true,
+      code: 'LOGIN_LOCKED',
+      message: `Too many failed login attempts for ${subject}. Try again in ${retryAfter} seconds.`,
+      retryAfter,
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+// Count a failed attempt and pass its error response through, or answer with the
+// lockout instead when this failure triggered one
+export function failedLoginResponse(username: string, ip: string, response: NextResponse): NextResponse {
+  const lockout = recordLoginFailure(username, ip);
+  return lockout ? loginLockedResponse(lockout) : response;
+}
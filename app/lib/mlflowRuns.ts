@@ -0,0 +1,178 @@
+// MLflow runs created for model runs
+//
+// A launch can ask for an MLflow run in an experiment of the configured tracking server
+// (mlflow in the server config). It is created through the MLflow REST API before the
+// model run starts, with the config's gitParams and modelParams logged as params and
+// tags naming the isolated folder and the VMES run. MLFLOW_RUN_ID (with
+// MLFLOW_TRACKING_URI and MLFLOW_EXPERIMENT_ID) is exported to the run, so
+// mlflow.start_run() in the training logs into the same MLflow run. The run record keeps
+// a link to the MLflow run and the MLflow run a link back (the vmes.url tag, built from
+// the configured appUrl).
+//
+// Training normally ends the MLflow run itself. Runs it never got to (a crash before
+// training started, a cancelled queued run) are ended here when the model run ends.
+import { getServerConfig } from './serverConfig';
+import { MlflowRunLink, RunRecord, RunStatus, subscribeRunEnded } from './runRegistry';
+
+export interface MlflowExperiment {
+  id: string;
+  name: string;
+}
+
+interface MlflowRunInfo {
+  run_id: string;
+  experiment_id: string;
+  status: string;
+}
+
+// Config sections logged as params, each as one JSON value (MlLoader reads them back)
+const CONFIG_PARAM_KEYS = ['gitParams', 'modelParams'];
+const EXPERIMENT_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const END_STATUSES: Partial<Record<RunStatus, string>> = {
+  succeeded: 'FINISHED',
+  failed: 'FAILED',
+  cancelled: 'KILLED',
+};
+
+const globalForMlflowRuns = globalThis as unknown as {
+  vmesMlflowRunEnds?: boolean;
+};
+
+export function isMlflowEnabled(): boolean {
+  return Boolean(getServerConfig().mlflow.trackingUri);
+}
+
+export function isValidExperimentId(experimentId: string): boolean {
+  return EXPERIMENT_ID_PATTERN.test(experimentId);
+}
+
+// Call the MLflow REST API (api/2.0/mlflow/<endpoint>). Throws with MLflow's own message
+// when the server refuses, or when it can't be reached in time.
+async function mlflowRequest<T>(endpoint: string, body?: object): Promise<T> {
+  const { trackingUri, requestTimeoutMs } = getServerConfig().mlflow;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), requestTimeoutMs);
+  try {
+    const response = await fetch(`${trackingUri}/api/2.0/mlflow/${endpoint}`, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        'Accept': 'application/json',
+        ...(body && { 'Content-Type': 'application/json' }),
+      },
+      ...(body && { body: JSON.stringify(body) }),
+      signal: controller.signal,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`MLflow server error: ${response.status} ${data.message || response.statusText}`);
+    }
+    return data as T;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Connection to MLflow server timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function toTags(tags: Record<string, string>): { key: string; value: string }[] {
+  return Object.entries(tags).map(([key, value]) => ({ key, value }));
+}
+
+// Params from a run's config file; none when it isn't JSON
+function configParams(configText: string): { key: string; value: string }[] {
+  let config: Record<string, unknown>;
+  try {
+    config = JSON.parse(configText);
+  } catch {
+    return [];
+  }
+  return CONFIG_PARAM_KEYS
+    .filter(key => config?.[key] !== undefined && config[key] !== null)
+    .map(key => ({ key, value: typeof config[key] === 'string' ? config[key] as string : JSON.stringify(config[key]) }));
+}
+
+export async function listMlflowExperiments(): Promise<MlflowExperiment[]> {
+  const data = await mlflowRequest<{ experiments?: { experiment_id: string; name: string }[] }>('experiments/search', {
+    max_results: 1000,
+    view_type: 'ACTIVE_ONLY',
+  });
+  return (data.experiments || []).map(experiment => ({ id: experiment.experiment_id, name: experiment.name }));
+}
+
+// Create the MLflow run of a model run about to be launched, with the params of its config
+export async function createMlflowRun(experimentId: string, runName: string, configText: string, tags: Record<string, string>): Promise<MlflowRunLink> {
+  const { run } = await mlflowRequest<{ run: { info: MlflowRunInfo } }>('runs/create', {
+    experiment_id: experimentId,
+    run_name: runName,
+    start_time: Date.now(),
+    tags: toTags({ 'mlflow.runName': runName, ...tags }),
+  });
+  const runId = run.info.run_id;
+
+  const params = configParams(configText);
+  if (params.length) {
+    try {
+      await mlflowRequest('runs/log-batch', { run_id: runId, params });
+    } catch (error) {
+      // The run would never be used; don't leave it looking like it is in progress
+      await mlflowRequest('runs/update', { run_id: runId, status: 'FAILED', end_time: Date.now() }).catch(() => {});
+      throw error;
+    }
+  }
+
+  return {
+    runId,
+    experimentId: run.info.experiment_id,
+    url: `${getServerConfig().mlflow.trackingUri}/#/experiments/${run.info.experiment_id}/runs/${runId}`,
+  };
+}
+
+// Tags that point an MLflow run at its model run
+export function modelRunTags(runId: string): Record<string, string> {
+  const appUrl = getServerConfig().mlflow.appUrl.replace(/\/+$/, '');
+  return { 'vmes.run_id': runId, ...(appUrl && { 'vmes.url': `${appUrl}/?run=${runId}` }) };
+}
+
+export async function tagMlflowRun(runId: string, tags: Record<string, string>): Promise<void> {
+  await mlflowRequest('runs/log-batch', { run_id: runId, tags: toTags(tags) });
+}
+
+// Environment the training finds its MLflow run through
+export function mlflowRunEnv(link: MlflowRunLink): Record<string, string> {
+  return {
+    MLFLOW_TRACKING_URI: getServerConfig().mlflow.trackingUri,
+    MLFLOW_EXPERIMENT_ID: link.experimentId,
+    MLFLOW_RUN_ID: link.runId,
+  };
+}
+
+// End the MLflow run of a model run that has ended, unless the training already did
+async function endMlflowRun(run: RunRecord): Promise<void> {
+  const status = END_STATUSES[run.status];
+  if (!run.mlflow || !status || !isMlflowEnabled()) {
+    return;
+  }
+  try {
+    const { run: mlflowRun } = await mlflowRequest<{ run: { info: MlflowRunInfo } }>(`runs/get?run_id=${encodeURIComponent(run.mlflow.runId)}`);
+    if (mlflowRun.info.status === 'RUNNING' || mlflowRun.info.status === 'SCHEDULED') {
+      await mlflowRequest('runs/update', { run_id: run.mlflow.runId, status, end_time: run.endedAt ?? Date.now() });
+    }
+  } catch (error) {
+    console.warn(`Could not end MLflow run ${run.mlflow.runId} of run ${run.id}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Follow the end of every run once per server process
+export function startMlflowRunTracking(): void {
+  if (globalForMlflowRuns.vmesMlflowRunEnds) {
+    return;
+  }
+  globalForMlflowRuns.vmesMlflowRunEnds = true;
+  subscribeRunEnded(run => {
+    endMlflowRun(run);
+  });
+}
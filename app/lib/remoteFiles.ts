@@ -0,0 +1,155 @@
+// Browsing and managing files on a session's host over SFTP (see /api/files)
+//
+// Every path is confined to the session's file root (the host profile's paths.files, by
+// default the user's home folder). Requested paths are normalized first, relative ones
+// against the root, and anything that ends up outside the root is refused. Symlinks are
+// listed as such and the remote host follows them like any other path: the root keeps
+// users from wandering off by mistake, while what they can actually touch is still up to
+// their own permissions on the host.
+import * as path from 'path';
+import { SFTPWrapper, Stats } from 'ssh2';
+import { SshTarget, toSshErrorDetails } from './sshConnection';
+import { getPooledSftp, runPooledCommand } from './sshPool';
+import { resolveHostPaths } from './hostProfiles';
+import { shellQuote } from './runProcess';
+
+export type RemoteFileType = 'directory' | 'file' | 'symlink' | 'other';
+
+export interface RemoteFileEntry {
+  name: string;
+  path: string;
+  type: RemoteFileType;
+  size: number;
+  modifiedAt: number;
+  // Permission bits in octal, e.g. "755"
+  permissions: string;
+}
+
+// Raised for requests that can't be carried out; carries the HTTP status to report
+export class RemoteFileError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RemoteFileError';
+    this.status = status;
+  }
+}
+
+// SFTP status codes worth telling apart (see ssh2's STATUS_CODE)
+const SFTP_NO_SUCH_FILE = 2;
+const SFTP_PERMISSION_DENIED = 3;
+// What servers answer rmdir on a directory that isn't empty
+const SFTP_FAILURE = 4;
+
+// Directory listings stop here so a folder with a huge number of files can't stall the request
+const MAX_ENTRIES = 5000;
+
+export function getFileRoot(target: SshTarget): string {
+  return resolveHostPaths(target.host, target.username).files;
+}
+
+// Absolute, normalized form of a requested path; throws if it leaves the root
+export function resolveRemotePath(root: string, requested: string): string {
+  const resolved = path.posix.resolve(root, requested.trim() || '.');
+  const normalizedRoot = path.posix.resolve(root);
+  if (resolved !== normalizedRoot && !resolved.startsWith(`${normalizedRoot === '/' ? '' : normalizedRoot}/`)) {
+    throw new RemoteFileError(`Path is outside ${normalizedRoot}: ${requested}`, 403);
+  }
+  return resolved;
+}
+
+function toEntry(remotePath: string, attrs: Stats): RemoteFileEntry {
+  const type: RemoteFileType = attrs.isDirectory() ? 'directory'
+    : attrs.isFile() ? 'file'
+    : attrs.isSymbolicLink() ? 'symlink'
+    : 'other';
+  return {
+    name: path.posix.basename(remotePath) || remotePath,
+    path: remotePath,
+    type,
+    size: attrs.size,
+    modifiedAt: attrs.mtime * 1000,
+    permissions: (attrs.mode & 0o777).toString(8).padStart(3, '0'),
+  };
+}
+
+function sftpCall<T>(call: (callback: (err: Error | null | undefined, result: T) => void) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    call((err, result) => (err ? reject(err) : resolve(result)));
+  });
+}
+
+function lstat(sftp: SFTPWrapper, remotePath: string): Promise<Stats> {
+  return sftpCall<Stats>(callback => sftp.lstat(remotePath, callback));
+}
+
+// Details of one path. Symlinks are described themselves, not what they point to.
+export async function statRemotePath(poolKey: string, target: SshTarget, remotePath: string): Promise<RemoteFileEntry> {
+  const sftp = await getPooledSftp(poolKey, target);
+  return toEntry(remotePath, await lstat(sftp, remotePath));
+}
+
+// Contents of a directory, folders first and then by name
+export async function listRemoteDirectory(poolKey: string, target: SshTarget, remotePath: string): Promise<{ entries: RemoteFileEntry[]; truncated: boolean }> {
+  const sftp = await getPooledSftp(poolKey, target);
+  const list = await sftpCall<Parameters<Parameters<SFTPWrapper['readdir']>[1]>[1]>(callback => sftp.readdir(remotePath, callback));
+  const entries = list
+    .filter(item => item.filename !== '.' && item.filename !== '..')
+    .map(item => toEntry(path.posix.join(remotePath, item.filename), item.attrs))
+    .sort((a, b) => Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name));
+  return { entries: entries.slice(0, MAX_ENTRIES), truncated: entries.length > MAX_ENTRIES };
+}
+
+// Create one directory; its parent must already exist
+export async function makeRemoteDirectory(poolKey: string, target: SshTarget, remotePath: string): Promise<RemoteFileEntry> {
+  const sftp = await getPooledSftp(poolKey, target);
+  await sftpCall<void>(callback => sftp.mkdir(remotePath, callback));
+  return toEntry(remotePath, await lstat(sftp, remotePath));
+}
+
+// Move or rename a path. Refuses to replace something that already exists.
+export async function renameRemotePath(poolKey: string, target: SshTarget, fromPath: string, toPath: string): Promise<RemoteFileEntry> {
+  const sftp = await getPooledSftp(poolKey, target);
+  const exists = await lstat(sftp, toPath).then(() => true, () => false);
+  if (exists) {
+    throw new RemoteFileError(`${toPath} already exists`, 409);
+  }
+  await sftpCall<void>(callback => sftp.rename(fromPath, toPath, callback));
+  return toEntry(toPath, await lstat(sftp, toPath));
+}
+
+// Delete a file, symlink or empty directory; `recursive` also deletes directories with
+// everything in them (with rm -rf, as SFTP has no recursive delete)
+export async function deleteRemotePath(poolKey: string, target: SshTarget, remotePath: string, recursive: boolean): Promise<void> {
+  const sftp = await getPooledSftp(poolKey, target);
+  const attrs = await lstat(sftp, remotePath);
+  if (!attrs.isDirectory()) {
+    await sftpCall<void>(callback => sftp.unlink(remotePath, callback));
+  } else if (!recursive) {
+    await sftpCall<void>(callback => sftp.rmdir(remotePath, callback)).catch(error => {
+      throw error?.code === SFTP_FAILURE ? new RemoteFileError(`${remotePath} is not empty`, 409) : error;
+    });
+  } else {
+    const { code, stderr } = await runPooledCommand(poolKey, target, `rm -rf -- ${shellQuote(remotePath)}`);
+    if (code !== 0) {
+      throw new RemoteFileError(`Could not delete ${remotePath}: ${stderr.trim() || `rm exited with ${code}`}`, 500);
+    }
+  }
+}
+
+// Status and message to report for anything thrown by the functions above
+export function toRemoteFileErrorDetails(error: unknown): { status: number; message: string } {
+  if (error instanceof RemoteFileError) {
+    return { status: error.status, message: error.message };
+  }
+  const code = (error as { code?: unknown })?.code;
+  if (code === SFTP_NO_SUCH_FILE) {
+    return { status: 404, message: 'No such file or directory' };
+  }
+  if (code === SFTP_PERMISSION_DENIED) {
+    return { status: 403, message: 'Permission denied' };
+  }
+  const { status, message } = toSshErrorDetails(error);
+  return { status, message };
+}
@@ -0,0 +1,165 @@
+// Artifacts of model runs: files left in a run's isolated folder
+//
+// What counts as an artifact comes from the run's recipe (RunRecipe.artifacts, copied
+// onto the run when it is launched): glob rules matched against paths relative to the
+// isolated folder. Files are listed over SFTP; single files are streamed straight from
+// SFTP and several at once as a tar.gz built by tar on the remote host.
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ClientChannel, SFTPWrapper } from 'ssh2';
+import { SshTarget } from './sshConnection';
+import { execPooled, getPooledSftp } from './sshPool';
+import { RunRecord } from './runRegistry';
+import { shellQuote } from './runProcess';
+
+export interface RunArtifact {
+  // Relative to the run's isolated folder
+  path: string;
+  size: number;
+  modifiedAt: number;
+}
+
+// Everything in the isolated folder, for runs without rules of their own
+export const DEFAULT_ARTIFACT_RULES = ['**'];
+
+// Listing stops here so a run that writes thousands of files can't stall the request
+const MAX_ARTIFACTS = 2000;
+const MAX_DEPTH = 10;
+
+// "*" and "?" stay within one path segment, "**" spans any number of them
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no folder at all
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+// A path is an artifact when it matches a rule and no later "!" rule excludes it
+export function isArtifactPath(relativePath: string, rules: string[]): boolean {
+  let matched = false;
+  for (const rule of rules) {
+    const exclude = rule.startsWith('!');
+    if (globToRegExp(exclude ? rule.slice(1) : rule).test(relativePath)) {
+      matched = !exclude;
+    }
+  }
+  return matched;
+}
+
+export function getArtifactRules(run: RunRecord): string[] {
+  return run.artifacts?.length ? run.artifacts : DEFAULT_ARTIFACT_RULES;
+}
+
+// Clean up a requested artifact path; null if it leaves the isolated folder or isn't an artifact
+export function resolveArtifactPath(run: RunRecord, requested: string): string | null {
+  const relativePath = path.posix.normalize(requested.trim());
+  if (!relativePath || relativePath === '.' || relativePath.startsWith('/') || relativePath.split('/').includes('..')) {
+    return null;
+  }
+  return isArtifactPath(relativePath, getArtifactRules(run)) ? relativePath : null;
+}
+
+function readDirectory(sftp: SFTPWrapper, remotePath: string) {
+  return new Promise<Parameters<Parameters<SFTPWrapper['readdir']>[1]>[1]>((resolve, reject) => {
+    sftp.readdir(remotePath, (err, list) => (err ? reject(err) : resolve(list)));
+  });
+}
+
+// Files in the run's isolated folder that count as artifacts, sorted by path. Symlinks
+// are not followed.
+export async function listRunArtifacts(poolKey: string, target: SshTarget, run: RunRecord): Promise<{ artifacts: RunArtifact[]; truncated: boolean }> {
+  const sftp = await getPooledSftp(poolKey, target);
+  const rules = getArtifactRules(run);
+  const artifacts: RunArtifact[] = [];
+  const folders = [{ relativePath: '', depth: 0 }];
+
+  while (folders.length && artifacts.length < MAX_ARTIFACTS) {
+    const folder = folders.shift()!;
+    const entries = await readDirectory(sftp, path.posix.join(run.isolatedPath, folder.relativePath));
+    for (const entry of entries) {
+      const relativePath = folder.relativePath ? `${folder.relativePath}/${entry.filename}` : entry.filename;
+      if (entry.attrs.isDirectory()) {
+        if (folder.depth < MAX_DEPTH) {
+          folders.push({ relativePath, depth: folder.depth + 1 });
+        }
+      } else if (entry.attrs.isFile() && isArtifactPath(relativePath, rules)) {
+        artifacts.push({ path: relativePath, size: entry.attrs.size, modifiedAt: entry.attrs.mtime * 1000 });
+      }
+    }
+  }
+
+  return {
+    artifacts: artifacts.slice(0, MAX_ARTIFACTS).sort((a, b) => a.path.localeCompare(b.path)),
+    truncated: artifacts.length >= MAX_ARTIFACTS,
+  };
+}
+
+// Stream one artifact. Rejects if it is missing or not a regular file.
+export async function openRunArtifact(poolKey: string, target: SshTarget, run: RunRecord, relativePath: string): Promise<{ stream: ReadableStream; size: number }> {
+  const sftp = await getPooledSftp(poolKey, target);
+  const remotePath = path.posix.join(run.isolatedPath, relativePath);
+  const stats = await new Promise<{ size: number; isFile(): boolean }>((resolve, reject) => {
+    sftp.lstat(remotePath, (err, attrs) => (err ? reject(err) : resolve(attrs)));
+  });
+  if (!stats.isFile()) {
+    throw new Error(`Not a file: ${relativePath}`);
+  }
+  return {
+    stream: Readable.toWeb(sftp.createReadStream(remotePath)) as ReadableStream,
+    size: stats.size,
+  };
+}
+
+// A command's output as a web stream. Readable.toWeb() would treat the channel closing
+// before its (unused) writable side has finished as an error.
+function channelToWebStream(channel: ClientChannel): ReadableStream {
+  let cancelled = false;
+  return new ReadableStream({
+    start(controller) {
+      channel.on('data', (data: Buffer) => {
+        controller.enqueue(new Uint8Array(data));
+        if ((controller.desiredSize ?? 1) <= 0) {
+          channel.pause();
+        }
+      }).on('close', () => {
+        if (!cancelled) {
+          controller.close();
+        }
+      });
+    },
+    pull() {
+      channel.resume();
+    },
+    cancel() {
+      cancelled = true;
+      channel.close();
+    },
+  });
+}
+
+// Stream a tar.gz of the given artifacts, built in the run's isolated folder
+export async function archiveRunArtifacts(poolKey: string, target: SshTarget, run: RunRecord, relativePaths: string[]): Promise<ReadableStream> {
+  const command = `cd ${shellQuote(run.isolatedPath)} && tar -czf - -- ${relativePaths.map(shellQuote).join(' ')}`;
+  const channel = await execPooled(poolKey, target, command);
+  channel.stderr.on('data', (data: Buffer) => {
+    console.error(`Artifact archive for run ${run.id}: ${data.toString().trim()}`);
+  });
+  return channelToWebStream(channel);
+}
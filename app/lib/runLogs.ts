@@ -0,0 +1,492 @@
+// Server-side copies of run logs
+//
+// Each run's event stream - launch status messages, every line of its log and how it
+// ended - is appended to <runs.logDir>/<runId>.ndjson in the data directory, so it can be
+// replayed, paged through and searched after the client has gone and even after the
+// isolated folder has been deleted. Entries are numbered as they are recorded; streams
+// following a run send them on as they come (see runStreamProtocol.ts).
+//
+// Log output is recorded by its byte offset in the remote log: output seen twice (two
+// clients following the same run, or a catch-up racing a live tail) is recorded once,
+// and output past a gap is left for the catch-up from the remote log (see
+// catchUpRunLog in runMonitor.ts) so the copy never has holes. A copy is complete once
+// the run's end has been recorded.
+//
+// Entries are numbered from 1 in the order they are stored, one per line, so entry n is
+// line n of the copy. The byte position of every INDEX_STRIDE-th line is kept in
+// <runId>.idx next to it, so pages and resumed streams are read from near where they
+// start instead of from the top of the file.
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { EventEmitter } from 'events';
+import { RE2JS } from 're2js';
+import { RunStreamMessage } from './runStreamProtocol';
+import { getServerConfig, resolveDataPath } from './serverConfig';
+import { RUN_END_MARKER, RUN_STDERR_MARKER } from './runProcess';
+import { extractRunMetrics, finishRunMetrics, MetricValues } from './runMetrics';
+
+// A line of a stored log: a stream message, its number in the log (from 1) and when it
+// was recorded. Log output is stored one line per entry; `offset` is the byte offset
+// just past the line, `metrics` what the recipe's metric rules found in it.
+export interface RunLogEntry extends RunStreamMessage {
+  seq: number;
+  ts: number;
+  metrics?: MetricValues;
+  // Set on the last entry, which reports how the run ended
+  end?: boolean;
+}
+
+export interface RunLogPage {
+  entries: RunLogEntry[];
+  // Index of the first entry returned and of the entry after the page (null at the end)
+  from: number;
+  next: number | null;
+  total: number;
+  complete: boolean;
+}
+
+export interface RunLogMatch {
+  // Number of the matching entry in the run's log
+  seq: number;
+  line: string;
+  before: string[];
+  after: string[];
+}
+
+interface RecorderState {
+  // Bytes of the remote log taken in so far, including `partial`
+  offset: number;
+  // Size of the stored copy
+  size: number;
+  // Start of a line whose end hasn't been seen yet
+  partial: string;
+  // Number of the last entry recorded
+  seq: number;
+  complete: boolean;
+}
+
+// Search limits, so one request can't scan or return without end
+export const MAX_MATCHES = 200;
+const MAX_MATCHES_PER_RUN = 50;
+const MAX_CONTEXT_LINES = 10;
+const MAX_PATTERN_LENGTH = 200;
+
+const INDEX_STRIDE = 256;
+// Each index entry is a byte position, unsigned little-endian
+const INDEX_ENTRY_BYTES = 6;
+const READ_CHUNK_BYTES = 64 * 1024;
+const NEWLINE = 0x0a;
+
+// One recorder per run per server process, even when route modules are bundled separately
+const globalForRunLogs = globalThis as unknown as {
+  vmesRunLogRecorders?: Map<string, RecorderState>;
+  vmesRunLogEvents?: EventEmitter;
+};
+
+function getRunLogEvents(): EventEmitter {
+  if (!globalForRunLogs.vmesRunLogEvents) {
+    globalForRunLogs.vmesRunLogEvents = new EventEmitter();
+    globalForRunLogs.vmesRunLogEvents.setMaxListeners(0);
+  }
+  return globalForRunLogs.vmesRunLogEvents;
+}
+
+// Entries of a run as they are recorded. Returns a function that removes the listener.
+export function subscribeRunLog(runId: string, listener: (entry: RunLogEntry) => void): () => void {
+  const events = getRunLogEvents();
+  events.on(runId, listener);
+  return () => {
+    events.off(runId, listener);
+  };
+}
+
+function getLogPath(runId: string): string {
+  return resolveDataPath(getServerConfig().runs.logDir, `${runId}.ndjson`);
+}
+
+function getIndexPath(runId: string): string {
+  return resolveDataPath(getServerConfig().runs.logDir, `${runId}.idx`);
+}
+
+function parseEntry(line: Buffer | string): RunLogEntry | null {
+  try {
+    return line.length ? JSON.parse(line.toString()) as RunLogEntry : null;
+  } catch {
+    return null;
+  }
+}
+
+// What the end of a stored copy says about it: its size, the number of its last entry,
+// whether the run's end is in it and how far into the remote log its output goes. Read
+// backwards from the end until the last output entry.
+function readLogTail(logPath: string): { size: number; seq: number; complete: boolean; offset: number } {
+  const tail = { size: 0, seq: 0, complete: false, offset: 0 };
+  if (!fs.existsSync(logPath)) {
+    return tail;
+  }
+  const fd = fs.openSync(logPath, 'r');
+  try {
+    tail.size = fs.fstatSync(fd).size;
+    let position = tail.size;
+    let pending = Buffer.alloc(0);
+    let seenLast = false;
+    while (position > 0) {
+      const length = Math.min(READ_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      fs.readSync(fd, chunk, 0, length, position);
+      pending = Buffer.concat([chunk, pending]);
+
+      // Lines that are whole: everything after the first newline, or all of it at the start
+      let end = pending.length;
+      let start = pending.lastIndexOf(NEWLINE, end - 1);
+      while (start >= 0 || position === 0) {
+        const entry = parseEntry(pending.subarray(start + 1, end));
+        if (entry && !seenLast) {
+          seenLast = true;
+          tail.seq = entry.seq;
+          tail.complete = Boolean(entry.end);
+        }
+        if (entry && typeof entry.offset === 'number') {
+          tail.offset = entry.offset;
+          return tail;
+        }
+        if (start < 0) {
+          break;
+        }
+        end = start;
+        start = pending.lastIndexOf(NEWLINE, end - 1);
+      }
+      pending = pending.subarray(0, end);
+    }
+    return tail;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Rebuild the index of a stored copy unless it covers all `total` entries (copies stored
+// before there were indexes, or an index left behind by a crash)
+function ensureIndex(runId: string, total: number): void {
+  const indexPath = getIndexPath(runId);
+  const expected = Math.ceil(total / INDEX_STRIDE) * INDEX_ENTRY_BYTES;
+  if ((fs.existsSync(indexPath) ? fs.statSync(indexPath).size : 0) === expected) {
+    return;
+  }
+
+  const positions: number[] = [];
+  const fd = fs.openSync(getLogPath(runId), 'r');
+  try {
+    const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+    let position = 0;
+    let lineStart = 0;
+    let line = 0;
+    let read: number;
+    while ((read = fs.readSync(fd, chunk, 0, READ_CHUNK_BYTES, position)) > 0) {
+      for (let index = chunk.indexOf(NEWLINE); index >= 0 && index < read; index = chunk.indexOf(NEWLINE, index + 1)) {
+        if (line % INDEX_STRIDE === 0) {
+          positions.push(lineStart);
+        }
+        line++;
+        lineStart = position + index + 1;
+      }
+      position += read;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.writeFileSync(indexPath, encodeIndexEntries(positions), { mode: 0o600 });
+}
+
+function encodeIndexEntries(positions: number[]): Buffer {
+  const buffer = Buffer.alloc(positions.length * INDEX_ENTRY_BYTES);
+  positions.forEach((position, index) => buffer.writeUIntLE(position, index * INDEX_ENTRY_BYTES, INDEX_ENTRY_BYTES));
+  return buffer;
+}
+
+// Byte position of the indexed line at or before entry `index` (0-based), and how many
+// lines there are from it to the entry
+function locateEntry(runId: string, index: number): { position: number; skip: number } {
+  const slot = Math.floor(index / INDEX_STRIDE);
+  const buffer = Buffer.alloc(INDEX_ENTRY_BYTES);
+  const fd = fs.openSync(getIndexPath(runId), 'r');
+  try {
+    const read = fs.readSync(fd, buffer, 0, INDEX_ENTRY_BYTES, slot * INDEX_ENTRY_BYTES);
+    return read === INDEX_ENTRY_BYTES
+      ? { position: buffer.readUIntLE(0, INDEX_ENTRY_BYTES), skip: index % INDEX_STRIDE }
+      : { position: 0, skip: index };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Where recording left off, from the stored copy when the run hasn't been seen yet. Only
+// runs still being recorded are kept; a complete copy never changes again.
+function getRecorder(runId: string): RecorderState {
+  if (!globalForRunLogs.vmesRunLogRecorders) {
+    globalForRunLogs.vmesRunLogRecorders = new Map();
+  }
+  const recorders = globalForRunLogs.vmesRunLogRecorders;
+  let state = recorders.get(runId);
+  if (!state) {
+    const tail = readLogTail(getLogPath(runId));
+    if (tail.seq) {
+      ensureIndex(runId, tail.seq);
+    }
+    state = { offset: tail.offset, size: tail.size, partial: '', seq: tail.seq, complete: tail.complete };
+    if (!state.complete) {
+      recorders.set(runId, state);
+    }
+  }
+  return state;
+}
+
+// Number, store, index and announce new entries
+function appendEntries(runId: string, state: RecorderState, messages: Omit<RunLogEntry, 'seq'>[]): void {
+  if (!messages.length) {
+    return;
+  }
+  const entries = messages.map(message => ({ ...message, seq: ++state.seq }));
+  const lines = entries.map(entry => JSON.stringify(entry) + '\n');
+  const positions: number[] = [];
+  let position = state.size;
+  entries.forEach((entry, index) => {
+    if ((entry.seq - 1) % INDEX_STRIDE === 0) {
+      positions.push(position);
+    }
+    position += Buffer.byteLength(lines[index]);
+  });
+
+  fs.mkdirSync(resolveDataPath(getServerConfig().runs.logDir), { recursive: true, mode: 0o700 });
+  fs.appendFileSync(getLogPath(runId), lines.join(''), { mode: 0o600 });
+  if (positions.length) {
+    fs.appendFileSync(getIndexPath(runId), encodeIndexEntries(positions), { mode: 0o600 });
+  }
+  state.size = position;
+
+  const events = getRunLogEvents();
+  entries.forEach(entry => events.emit(runId, entry));
+}
+
+// Byte offset up to which the remote log has been recorded
+export function getRecordedOffset(runId: string): number {
+  return getRecorder(runId).offset;
+}
+
+export function isRunLogComplete(runId: string): boolean {
+  return getRecorder(runId).complete;
+}
+
+// Record a stream message other than log output (e.g. a launch status message)
+export function recordRunEvent(runId: string, message: RunStreamMessage): void {
+  const state = getRecorder(runId);
+  if (!state.complete) {
+    appendEntries(runId, state, [{ ...message, ts: Date.now() }]);
+  }
+}
+
+// An output line of the remote log; stderr lines carry RUN_STDERR_MARKER there
+function outputEntry(runId: string, line: string, offset: number, ts: number): Omit<RunLogEntry, 'seq'> {
+  const isStderr = line.startsWith(`${RUN_STDERR_MARKER} `);
+  const message = isStderr ? line.slice(RUN_STDERR_MARKER.length + 1) : line;
+  const metrics = extractRunMetrics(runId, message);
+  return { type: isStderr ? 'stderr' : 'stdout', message, offset, ts, ...(metrics && { metrics }) };
+}
+
+// Record output read from the remote log starting at byte `start`. Blank lines and the
+// end marker are left out of the copy.
+export function recordRunOutput(runId: string, start: number, text: string): void {
+  const state = getRecorder(runId);
+  let bytes = Buffer.from(text);
+  if (state.complete || start > state.offset || start + bytes.length <= state.offset) {
+    return;
+  }
+  bytes = bytes.subarray(state.offset - start);
+
+  // Complete lines start where the held back partial line does
+  let lineEnd = state.offset - Buffer.byteLength(state.partial);
+  const lines = (state.partial + bytes.toString()).split('\n');
+  state.partial = lines.pop() ?? '';
+
+  const ts = Date.now();
+  const entries: Omit<RunLogEntry, 'seq'>[] = [];
+  for (const line of lines) {
+    lineEnd += Buffer.byteLength(line) + 1;
+    const message = line.replace(/\r$/, '');
+    if (message.trim() && !message.startsWith(`${RUN_END_MARKER} `)) {
+      entries.push(outputEntry(runId, message, lineEnd, ts));
+    }
+  }
+  state.offset += bytes.length;
+  appendEntries(runId, state, entries);
+}
+
+// Record how the run ended, after whatever is left of its last line. Nothing is recorded
+// for the run after this.
+export function recordRunEnd(runId: string, message: RunStreamMessage): void {
+  const state = getRecorder(runId);
+  if (state.complete) {
+    return;
+  }
+  const ts = Date.now();
+  const entries: Omit<RunLogEntry, 'seq'>[] = [];
+  const rest = state.partial.replace(/\r$/, '');
+  if (rest.trim() && !rest.startsWith(`${RUN_END_MARKER} `)) {
+    entries.push(outputEntry(runId, rest, state.offset, ts));
+  }
+  entries.push({ ...message, ts, end: true });
+  state.partial = '';
+  state.complete = true;
+  appendEntries(runId, state, entries);
+  globalForRunLogs.vmesRunLogRecorders?.delete(runId);
+  finishRunMetrics(runId);
+}
+
+// Up to `limit` entries from entry `from` (0-based), read from the indexed line before it
+export function readRunLogPage(runId: string, from: number, limit: number): RunLogPage {
+  const { seq: total, complete } = getRecorder(runId);
+  const start = Math.min(Math.max(0, from), total);
+  const entries: RunLogEntry[] = [];
+  if (start < total) {
+    const { position, skip } = locateEntry(runId, start);
+    const fd = fs.openSync(getLogPath(runId), 'r');
+    try {
+      const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+      let lines = 0;
+      let pending = Buffer.alloc(0);
+      let read: number;
+      let readFrom = position;
+      while (entries.length < limit && (read = fs.readSync(fd, chunk, 0, READ_CHUNK_BYTES, readFrom)) > 0) {
+        readFrom += read;
+        pending = Buffer.concat([pending, chunk.subarray(0, read)]);
+        let lineStart = 0;
+        for (let index = pending.indexOf(NEWLINE); index >= 0 && entries.length < limit; index = pending.indexOf(NEWLINE, lineStart)) {
+          if (lines++ >= skip) {
+            const entry = parseEntry(pending.subarray(lineStart, index));
+            if (entry) {
+              entries.push(entry);
+            }
+          }
+          lineStart = index + 1;
+        }
+        pending = pending.subarray(lineStart);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+  const end = start + entries.length;
+  return {
+    entries,
+    from: start,
+    next: end < total ? end : null,
+    total,
+    complete,
+  };
+}
+
+// The entries of a run's stored log after entry `afterSeq`, a chunk's worth at a time,
+// read without blocking the server for a large log
+export async function* iterateRunLog(runId: string, afterSeq = 0): AsyncGenerator<RunLogEntry[]> {
+  const { seq: total } = getRecorder(runId);
+  if (afterSeq >= total) {
+    return;
+  }
+  const { position, skip } = locateEntry(runId, afterSeq);
+  const file = await fs.promises.open(getLogPath(runId), 'r');
+  try {
+    const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+    let lines = 0;
+    let pending = Buffer.alloc(0);
+    let readFrom = position;
+    for (;;) {
+      const { bytesRead } = await file.read(chunk, 0, READ_CHUNK_BYTES, readFrom);
+      if (!bytesRead) {
+        break;
+      }
+      readFrom += bytesRead;
+      pending = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+      const entries: RunLogEntry[] = [];
+      let lineStart = 0;
+      for (let index = pending.indexOf(NEWLINE); index >= 0; index = pending.indexOf(NEWLINE, lineStart)) {
+        if (lines++ >= skip) {
+          const entry = parseEntry(pending.subarray(lineStart, index));
+          if (entry) {
+            entries.push(entry);
+          }
+        }
+        lineStart = index + 1;
+      }
+      pending = pending.subarray(lineStart);
+      if (entries.length) {
+        yield entries;
+      }
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+// Test for a search: plain text (case-insensitive) or a regular expression. Regular
+// expressions run on RE2 (no backreferences or lookaround), which takes linear time on
+// any pattern, so a search can't stall the server. Throws on an invalid or overlong pattern.
+export function createLogMatcher(query: string, isRegex: boolean): (line: string) => boolean {
+  if (query.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Search text is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+  if (isRegex) {
+    const pattern = RE2JS.compile(query, RE2JS.CASE_INSENSITIVE);
+    return line => pattern.matcher(line).find();
+  }
+  const text = query.toLowerCase();
+  return line => line.toLowerCase().includes(text);
+}
+
+// Matching lines of one run's stored log with `context` lines around them, read line by
+// line so large logs aren't loaded whole
+export async function searchRunLogFile(runId: string, matches: (line: string) => boolean, context: number, limit = MAX_MATCHES_PER_RUN): Promise<RunLogMatch[]> {
+  const logPath = getLogPath(runId);
+  if (!fs.existsSync(logPath)) {
+    return [];
+  }
+
+  const contextLines = Math.min(Math.max(0, context), MAX_CONTEXT_LINES);
+  const found: RunLogMatch[] = [];
+  const previous: string[] = [];
+  // Matches still collecting the lines after them
+  let open: RunLogMatch[] = [];
+
+  const lines = readline.createInterface({ input: fs.createReadStream(logPath), crlfDelay: Infinity });
+  for await (const text of lines) {
+    let entry: RunLogEntry;
+    try {
+      entry = JSON.parse(text);
+    } catch {
+      continue;
+    }
+    const line = entry.message ?? '';
+
+    for (const match of open) {
+      match.after.push(line);
+    }
+    open = open.filter(match => match.after.length < contextLines);
+
+    if (found.length < limit && matches(line)) {
+      const match = { seq: entry.seq, line, before: [...previous], after: [] };
+      found.push(match);
+      if (contextLines > 0) {
+        open.push(match);
+      }
+    }
+    if (found.length >= limit && !open.length) {
+      lines.close();
+      break;
+    }
+
+    previous.push(line);
+    if (previous.length > contextLines) {
+      previous.shift();
+    }
+  }
+  return found;
+}
@@ -0,0 +1,189 @@
+// Training metrics found in a run's output
+//
+// Each line of output recorded for a run (see runLogs.ts) is checked against the metric
+// rules of its recipe (RunMetricRule in serverConfig.ts). Values found go out with the
+// line, so clients can chart them as the run streams, and are added to the run's metric
+// series, which are saved with the run record. Saves are spread out, as the registry is
+// rewritten on every save; a run's series are saved right away when it ends.
+import { RunMetricRule } from './serverConfig';
+import { getRun, updateRun } from './runRegistry';
+
+// Metrics of one line, and its place on the x axis
+export interface MetricValues {
+  step: number;
+  values: Record<string, number>;
+}
+
+interface CompiledMetricRule {
+  rule: RunMetricRule;
+  pattern: RegExp | null;
+  keys: Set<string> | null;
+}
+
+interface RunMetricsState {
+  rules: CompiledMetricRule[];
+  series: Record<string, [number, number][]>;
+  // Lines with metrics so far; the step of lines without one
+  count: number;
+  saveTimer: NodeJS.Timeout | null;
+}
+
+const SAVE_DELAY_MS = 5000;
+// Longer series lose every other point, so they keep their shape in bounded space
+const MAX_POINTS_PER_METRIC = 1000;
+const MAX_METRICS_PER_RUN = 50;
+
+const NUMBER = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?';
+const KEY_VALUE_PATTERN = new RegExp(`([A-Za-z_][\\w./-]*)\\s*[=:]\\s*(${NUMBER})(?![\\w.])`, 'g');
+
+// Metric state of the runs seen by this server process
+const globalForRunMetrics = globalThis as unknown as {
+  vmesRunMetrics?: Map<string, RunMetricsState>;
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws on a rule that can't be used
+export function compileMetricRule(rule: RunMetricRule): CompiledMetricRule {
+  if (rule.parser !== 'keyValue' && rule.parser !== 'regex') {
+    throw new Error(`Unknown metric parser "${rule.parser}"`);
+  }
+  if (rule.parser === 'regex' && !rule.pattern) {
+    throw new Error('A regex metric rule needs a pattern');
+  }
+  return {
+    rule,
+    pattern: rule.pattern ? new RegExp(rule.pattern) : null,
+    keys: rule.keys?.length ? new Set(rule.keys) : null,
+  };
+}
+
+type LineMetrics = { step?: number; values: Record<string, number> };
+
+function applyRule({ rule, pattern, keys }: CompiledMetricRule, line: string): LineMetrics | null {
+  const found: Record<string, number> = {};
+  if (rule.parser === 'regex') {
+    const groups = pattern!.exec(line)?.groups;
+    for (const [name, text] of Object.entries(groups || {})) {
+      const value = text === undefined ? NaN : Number(text);
+      if (Number.isFinite(value)) {
+        found[name] = value;
+      }
+    }
+  } else {
+    if (pattern && !pattern.test(line)) {
+      return null;
+    }
+    for (const [, name, text] of line.matchAll(KEY_VALUE_PATTERN)) {
+      found[name] = Number(text);
+    }
+    if (rule.step && found[rule.step] === undefined) {
+      const stepText = new RegExp(`\\b${escapeRegExp(rule.step)}\\s+(${NUMBER})`).exec(line)?.[1];
+      if (stepText !== undefined) {
+        found[rule.step] = Number(stepText);
+      }
+    }
+  }
+
+  const step = rule.step !== undefined ? found[rule.step] : undefined;
+  const values = Object.fromEntries(Object.entries(found)
+    .filter(([name]) => name !== rule.step && (!keys || keys.has(name))));
+  return Object.keys(values).length ? { step, values } : null;
+}
+
+// Metrics in one line by the first rule that finds any
+export function parseMetricLine(rules: CompiledMetricRule[], line: string): LineMetrics | null {
+  for (const rule of rules) {
+    const found = applyRule(rule, line);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+function getRunMetricsState(runId: string): RunMetricsState {
+  if (!globalForRunMetrics.vmesRunMetrics) {
+    globalForRunMetrics.vmesRunMetrics = new Map();
+  }
+  const states = globalForRunMetrics.vmesRunMetrics;
+  let state = states.get(runId);
+  if (!state) {
+    const run = getRun(runId);
+    const rules = (run?.metricRules || []).flatMap(rule => {
+      try {
+        return [compileMetricRule(rule)];
+      } catch (error) {
+        console.warn(`Ignoring metric rule of run ${runId}: ${error instanceof Error ? error.message : error}`);
+        return [];
+      }
+    });
+    const series = run?.metrics || {};
+    const count = Math.max(0, ...Object.values(series).map(points => points[points.length - 1]?.[0] ?? 0));
+    state = { rules, series, count, saveTimer: null };
+    states.set(runId, state);
+  }
+  return state;
+}
+
+function addPoint(series: [number, number][], point: [number, number]): void {
+  series.push(point);
+  if (series.length > MAX_POINTS_PER_METRIC) {
+    const last = series[series.length - 1];
+    const kept = series.filter((_, index) => index % 2 === 0);
+    if (kept[kept.length - 1] !== last) {
+      kept.push(last);
+    }
+    series.splice(0, series.length, ...kept);
+  }
+}
+
+// Metrics in a line of a run's output, added to the run's series. Returns null when the
+// line has none (or the run's recipe has no metric rules).
+export function extractRunMetrics(runId: string, line: string): MetricValues | null {
+  const state = getRunMetricsState(runId);
+  if (!state.rules.length) {
+    return null;
+  }
+  const found = parseMetricLine(state.rules, line);
+  if (!found) {
+    return null;
+  }
+
+  state.count++;
+  const step = found.step ?? state.count;
+  for (const [name, value] of Object.entries(found.values)) {
+    if (!state.series[name] && Object.keys(state.series).length >= MAX_METRICS_PER_RUN) {
+      continue;
+    }
+    addPoint(state.series[name] ??= [], [step, value]);
+  }
+
+  if (!state.saveTimer) {
+    state.saveTimer = setTimeout(() => saveRunMetrics(runId), SAVE_DELAY_MS);
+    state.saveTimer.unref();
+  }
+  return { step, values: found.values };
+}
+
+function saveRunMetrics(runId: string): void {
+  const state = globalForRunMetrics.vmesRunMetrics?.get(runId);
+  if (!state) {
+    return;
+  }
+  if (state.saveTimer) {
+    clearTimeout(state.saveTimer);
+    state.saveTimer = null;
+  }
+  if (Object.keys(state.series).length) {
+    updateRun(runId, { metrics: state.series });
+  }
+}
+
+// Save a run's series right away once its output is complete, and let go of them
+export function finishRunMetrics(runId: string): void {
+  saveRunMetrics(runId);
+  globalForRunMetrics.vmesRunMetrics?.delete(runId);
+}
@@ -0,0 +1,347 @@
+// Following detached model runs
+//
+// Runs keep going on the remote host whether or not anyone is watching (see
+// runProcess.ts). This module follows a run's remote log into its stored log (see
+// runLogs.ts) and records the end of the run in the registry once the remote side
+// reports it: through the end marker in the log while following, or the end summary
+// file (or SLURM) otherwise. Clients get a run's events from its stored log as they are
+// recorded, in the format described in runStreamProtocol.ts.
+import { StringDecoder } from 'string_decoder';
+import { SshTarget, toSshErrorDetails } from './sshConnection';
+import { RunRecord, finishRun, getRun, updateRun } from './runRegistry';
+import { getRemoteRunState, parseRunSummary, readRunLogBytes, RemoteRunState, RUN_END_MARKER, searchRunLog, tailRunLog } from './runProcess';
+import { getSlurmJobState, slurmJobAliveCheck } from './slurm';
+import { getRecordedOffset, isRunLogComplete, iterateRunLog, recordRunEnd, recordRunOutput, RunLogEntry, subscribeRunLog } from './runLogs';
+import { encodeRunStreamEvent, RunStreamFormat, RunStreamMessage, toRunStreamEvent } from './runStreamProtocol';
+
+// Bytes of the remote log fetched per command when catching up a stored log
+const LOG_CATCH_UP_CHUNK = 1024 * 1024;
+
+export interface RunStream {
+  readable: ReadableStream;
+  // Send a notice about this connection (a transient event)
+  send(message: RunStreamMessage): void;
+  close(): void;
+  // True once the client has gone away
+  isDisconnected(): boolean;
+  onDisconnect(listener: () => void): void;
+}
+
+export interface RunStreamOptions {
+  format?: RunStreamFormat;
+  // Number of the last event the client already has
+  afterSeq?: number;
+  // Sent ahead of everything else
+  notice?: RunStreamMessage;
+}
+
+// A stream of one run's events for a client: the events in the run's stored log after
+// `afterSeq`, then each new one as it is recorded, until the stream is closed. Whoever
+// follows or launches the run only has to record its events.
+export function createRunStream(runId: string, { format = 'ndjson', afterSeq = 0, notice }: RunStreamOptions = {}): RunStream {
+  const encoder = new TextEncoder();
+  const stream = new TransformStream();
+  const writer = stream.writable.getWriter();
+  const listeners: (() => void)[] = [];
+  let closed = false;
+  let disconnected = false;
+  let lastSeq = afterSeq;
+
+  const write = (entry: RunLogEntry, transient = false) => {
+    if (closed || disconnected) return;
+    writer.write(encoder.encode(encodeRunStreamEvent(toRunStreamEvent(runId, entry, transient), format))).catch(() => {});
+  };
+  // Entries can come from the replay and from the subscription; each is sent once
+  const sendEntry = (entry: RunLogEntry) => {
+    if (entry.seq > lastSeq) {
+      lastSeq = entry.seq;
+      write(entry);
+    }
+  };
+
+  if (notice) {
+    write({ ...notice, seq: lastSeq, ts: Date.now() }, true);
+  }
+  // Entries recorded while the stored log is being replayed, and notices and the close
+  // asked for meanwhile, wait for the replay so everything goes out in order
+  let recorded: RunLogEntry[] | null = [];
+  const unsubscribe = subscribeRunLog(runId, entry => recorded ? recorded.push(entry) : sendEntry(entry));
+  const replayed = (async () => {
+    try {
+      for await (const entries of iterateRunLog(runId, afterSeq)) {
+        if (closed || disconnected) break;
+        entries.forEach(sendEntry);
+      }
+    } catch (error) {
+      console.error(`Error replaying the log of run ${runId}:`, error);
+    }
+    const live = recorded || [];
+    recorded = null;
+    live.forEach(sendEntry);
+  })();
+  const afterReplay = (action: () => void) => {
+    if (recorded) {
+      replayed.then(action);
+    } else {
+      action();
+    }
+  };
+
+  // The writable side errors when the response body is cancelled by the client
+  writer.closed.catch(() => {
+    if (!closed) {
+      disconnected = true;
+      unsubscribe();
+      listeners.splice(0).forEach(listener => listener());
+    }
+  });
+
+  return {
+    readable: stream.readable,
+    send(message) {
+      afterReplay(() => write({ ...message, seq: lastSeq, ts: Date.now() }, true));
+    },
+    close() {
+      afterReplay(() => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        writer.close().catch(() => {});
+      });
+    },
+    isDisconnected: () => disconnected,
+    onDisconnect(listener) {
+      if (disconnected) {
+        listener();
+      } else {
+        listeners.push(listener);
+      }
+    },
+  };
+}
+
+// A SLURM run's job, once it has been submitted
+function getSlurmJob(target: SshTarget, run: RunRecord) {
+  const config = target.host.slurm;
+  const jobId = run.backend === 'slurm' ? run.slurm?.jobId : undefined;
+  return config && jobId ? { config, jobId } : null;
+}
+
+// Check a running run on the remote host and record its end if it is over
+export async function refreshRunStatus(poolKey: string, target: SshTarget, run: RunRecord): Promise<RunRecord> {
+  if (run.status !== 'running') {
+    return run;
+  }
+
+  let state: RemoteRunState;
+  let error = 'Run ended without recording an exit status';
+  const job = getSlurmJob(target, run);
+  if (job) {
+    const jobState = await getSlurmJobState(poolKey, target, job.config, job.jobId);
+    if (jobState.state !== run.slurm?.state) {
+      updateRun(run.id, { slurm: { ...run.slurm!, state: jobState.state } });
+    }
+    state = jobState;
+    error = `SLURM job ${job.jobId} ended in state ${jobState.state}`;
+  } else if (run.backend === 'slurm') {
+    // Not submitted (yet); nothing on the remote side to check
+    return getRun(run.id) ?? run;
+  } else {
+    state = await getRemoteRunState(poolKey, target, run.isolatedPath);
+  }
+
+  if (state.running) {
+    return getRun(run.id) ?? run;
+  }
+  return completeRun(poolKey, target, run, state, error);
+}
+
+// Record a run's end. A zero exit status still fails the run if its recipe's completion
+// rules say so: failure output was printed, or none of the expected success output was.
+async function completeRun(poolKey: string, target: SshTarget, run: RunRecord, end: Omit<RemoteRunState, 'running'>, missingStatusError: string): Promise<RunRecord> {
+  const current = getRun(run.id) ?? run;
+  if (current.status !== 'running') {
+    return current;
+  }
+
+  const details = { signal: end.signal, durationMs: end.durationMs };
+  let error = end.exitCode === null && !current.cancelRequestedAt ? missingStatusError : undefined;
+  const rules = current.completion;
+  if (end.exitCode === 0 && rules) {
+    const failure = await searchRunLog(poolKey, target, run.isolatedPath, rules.failureOutput);
+    if (failure) {
+      error = `Output contained "${failure}"`;
+    } else if (rules.successOutput.length && !await searchRunLog(poolKey, target, run.isolatedPath, rules.successOutput)) {
+      error = `Output did not contain any of: ${rules.successOutput.map(text => `"${text}"`).join(', ')}`;
+    }
+  }
+
+  const finished = finishRun(run.id, end.exitCode, error, error && end.exitCode === 0 ? { ...details, status: 'failed' } : details) ?? current;
+  await catchUpRunLog(poolKey, target, finished);
+  return finished;
+}
+
+// Complete the stored log of a run that has ended with whatever of the remote log it is
+// missing (output nobody was following), then record the end. Failing to read the remote
+// log leaves the copy incomplete to be tried again later, unless the log is gone for good.
+export async function catchUpRunLog(poolKey: string, target: SshTarget, run: RunRecord): Promise<void> {
+  if (run.status === 'queued' || run.status === 'running' || isRunLogComplete(run.id)) {
+    return;
+  }
+
+  if (run.isolatedPath && !run.workspaceDeletedAt) {
+    try {
+      const decoder = new StringDecoder('utf8');
+      let position = getRecordedOffset(run.id);
+      for (;;) {
+        const bytes = await readRunLogBytes(poolKey, target, run.isolatedPath, position, LOG_CATCH_UP_CHUNK);
+        if (!bytes?.length) {
+          break;
+        }
+        // Characters split across chunks are held back by the decoder and counted with the next chunk
+        const text = decoder.write(bytes);
+        recordRunOutput(run.id, position, text);
+        position += Buffer.byteLength(text);
+        if (bytes.length < LOG_CATCH_UP_CHUNK) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`Error storing the log of run ${run.id}:`, error);
+      return;
+    }
+  }
+  recordRunEnd(run.id, runEndMessage(run));
+}
+
+// The final line of a run's stream, once it has ended
+export function runEndMessage(run: RunRecord): RunStreamMessage {
+  const end = { status: run.status, exitCode: run.exitCode ?? null, signal: run.signal ?? null, durationMs: run.durationMs };
+  const took = run.durationMs !== undefined ? ` after ${(run.durationMs / 1000).toFixed(1)}s` : '';
+
+  if (run.status === 'cancelled') {
+    return { type: 'error', message: `Run ${run.folderName} was cancelled${took}`, ...end };
+  }
+  if (run.status === 'succeeded') {
+    return { type: 'success', message: `Isolated environment ${run.folderName} setup completed successfully${took}`, ...end };
+  }
+  const reason = run.signal
+    ? `killed by SIG${run.signal}`
+    : run.exitCode !== undefined && run.exitCode !== null && !run.error
+      ? `exit code ${run.exitCode}`
+      : run.error || 'unknown error';
+  return { type: 'error', message: `Isolated environment ${run.folderName} setup failed${took}: ${reason}`, ...end };
+}
+
+// Follow a run's remote log into its stored log, and so to `stream`, until the run ends
+// or the log can no longer be followed; then close the stream. A run that has already
+// ended only has its stored log completed. Resolves when the stream is closed. The run
+// itself is never stopped by this: a client going away only stops the tail.
+export async function attachRunLog(stream: RunStream, poolKey: string, target: SshTarget, run: RunRecord): Promise<void> {
+  try {
+    if (isRunLogComplete(run.id)) {
+      return;
+    }
+
+    let current = getRun(run.id) ?? run;
+    if (current.status === 'running') {
+      current = await followRemoteLog(stream, poolKey, target, current);
+    }
+    if (stream.isDisconnected()) {
+      return;
+    }
+
+    if (current.status === 'running') {
+      stream.send({ type: 'status', message: `Stopped following ${run.folderName}; the run continues in the background` });
+      return;
+    }
+    await catchUpRunLog(poolKey, target, current);
+    if (!isRunLogComplete(run.id)) {
+      // The stored log couldn't be completed; report the end anyway
+      stream.send(runEndMessage(current));
+    }
+  } catch (error) {
+    const { message, code } = toSshErrorDetails(error);
+    console.error(`Error following run ${run.id}:`, error);
+    stream.send({ type: 'error', code, message: `Lost connection to run ${run.folderName}: ${message}` });
+  } finally {
+    stream.close();
+  }
+}
+
+// Tail a running run's remote log from where its stored log stops, recording it as it
+// comes. The tail ends on the run's end marker, or when the log can no longer be
+// followed. Resolves to the run, with its end recorded if it is over.
+async function followRemoteLog(stream: RunStream, poolKey: string, target: SshTarget, run: RunRecord): Promise<RunRecord> {
+  // Batch jobs run elsewhere, so they are followed through the scheduler
+  const job = getSlurmJob(target, run);
+  if (job) {
+    const current = await refreshRunStatus(poolKey, target, run);
+    stream.send({ type: 'status', message: `SLURM job ${job.jobId} is ${current.slurm?.state || 'UNKNOWN'}` });
+  }
+
+  const offset = getRecordedOffset(run.id);
+  const aliveCheck = job ? slurmJobAliveCheck(job.config, job.jobId) : undefined;
+  const channel = await tailRunLog(poolKey, target, run.isolatedPath, offset, aliveCheck);
+  stream.onDisconnect(() => channel.close());
+
+  const end = await new Promise<Omit<RemoteRunState, 'running'> | null>((resolve) => {
+    const decoder = new StringDecoder('utf8');
+    let position = offset;
+    // Trailing text that may be the start of the end marker, held back until complete
+    let pending = '';
+    let summary: Omit<RemoteRunState, 'running'> | null = null;
+
+    channel.on('close', () => {
+      if (pending.trim() && !summary) {
+        recordRunOutput(run.id, position, pending);
+      }
+      resolve(summary);
+    }).on('data', (data: Buffer) => {
+      if (summary) return;
+      let text = pending + decoder.write(data);
+      pending = '';
+
+      const lastLine = text.slice(text.lastIndexOf('\n') + 1);
+      if (lastLine && RUN_END_MARKER.startsWith(lastLine.slice(0, RUN_END_MARKER.length))) {
+        pending = lastLine;
+        text = text.slice(0, text.length - lastLine.length);
+      }
+
+      const markerAt = text.search(new RegExp(`^${RUN_END_MARKER} `, 'm'));
+      if (markerAt >= 0) {
+        const markerLine = text.slice(markerAt).split('\n')[0];
+        summary = parseRunSummary(markerLine.slice(RUN_END_MARKER.length + 1));
+        text = text.slice(0, markerAt);
+      }
+
+      // Count only bytes recorded, so held back or split characters are read again later
+      recordRunOutput(run.id, position, text);
+      position += Buffer.byteLength(text);
+      if (summary) {
+        channel.close();
+      }
+    }).stderr.on('data', (data: Buffer) => {
+      const message = data.toString().trim();
+      if (message) {
+        console.error(`Log tail for run ${run.id}: ${message}`);
+        stream.send({ type: 'stderr', message });
+      }
+    });
+  });
+
+  if (stream.isDisconnected()) {
+    return getRun(run.id) ?? run;
+  }
+
+  // Without a marker (old run, killed, or the connection dropped) ask the remote side;
+  // SLURM runs are asked either way to pick up the job's final state
+  let current = getRun(run.id) ?? run;
+  if (job || !end) {
+    current = await refreshRunStatus(poolKey, target, current);
+  }
+  if (end && current.status === 'running') {
+    current = await completeRun(poolKey, target, current, end, 'Run ended without recording an exit status');
+  }
+  return current;
+}
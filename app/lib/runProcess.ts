@@ -0,0 +1,207 @@
+// Remote process handling for model runs
+//
+// The run script is started detached from the SSH channel (nohup + setsid), so it keeps
+// running when the browser goes away or the server restarts, and the whole process tree
+// it spawns shares one process group. Everything it needs to be found again lives in
+// the isolated folder:
+//   RUN_PID_FILE  - process group id, used to cancel the run and to tell if it is alive
+//   RUN_LOG_FILE  - stdout and stderr, tailed by byte offset to (re)attach; stderr lines
+//                   start with RUN_STDERR_MARKER so the two can be told apart
+//   RUN_EXIT_FILE - end summary (exit code, signal, duration), written when the script ends
+//
+// The end summary is also printed to the log as a RUN_END_MARKER line, so whoever follows
+// the log learns the real outcome the moment the run ends (see runScriptSetup).
+import { ClientChannel } from 'ssh2';
+import { SshTarget } from './sshConnection';
+import { execPooled, runPooledCommand } from './sshPool';
+
+export const RUN_PID_FILE = '.vmes-run.pid';
+export const RUN_LOG_FILE = '.vmes-run.log';
+export const RUN_EXIT_FILE = '.vmes-run.exit';
+export const RUN_END_MARKER = '__VMES_RUN_END__';
+export const RUN_STDERR_MARKER = '__VMES_STDERR__';
+
+// Seconds to wait after each signal before escalating to the next one
+const SIGNAL_GRACE_SECONDS = 10;
+
+// How often a followed run that isn't a local process is checked for its end
+const FOLLOW_POLL_SECONDS = 5;
+
+export type StopOutcome = 'INT' | 'TERM' | 'KILL' | 'not-running' | 'unknown';
+
+// Quote a string for a POSIX shell
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// What the remote side knows about a run
+export interface RemoteRunState {
+  running: boolean;
+  // Null while running, or when the run died without recording its status (e.g. SIGKILL)
+  exitCode: number | null;
+  // From the end summary, when there is one
+  signal?: string | null;
+  durationMs?: number;
+}
+
+// Shell lines that start a run script whose output goes to the log, run from the
+// isolated folder. Each line the script writes to stderr is written to stdout after
+// RUN_STDERR_MARKER instead.
+//
+// The script also reports its end: the summary goes to RUN_EXIT_FILE in the isolated
+// folder (wherever the script has moved to since) and, on a line of its own, to the log
+// after RUN_END_MARKER, once the last stderr line is out. Terminating signals are trapped
+// so the summary can name them (exiting with the usual 128 + n status); SIGKILL can't
+// be, so a killed run leaves no summary.
+export function runScriptSetup(): string {
+  return [
+    // The script may cd elsewhere; the summary still goes to the isolated folder
+    'vmes_dir=$PWD',
+    `exec 2> >(sed -u 's/^/${RUN_STDERR_MARKER} /')`,
+    'vmes_stderr=$!',
+    'vmes_started=$(date +%s%3N)',
+    'vmes_signal=',
+    'vmes_end() {',
+    '  local code=$? signal=null',
+    // Children left running can keep the stderr pipe open; don't wait on them for long
+    '  exec 2>&-',
+    '  local i=0',
+    '  while kill -0 "$vmes_stderr" 2>/dev/null && [ "$i" -lt 50 ]; do sleep 0.1; i=$((i + 1)); done',
+    '  [ -n "$vmes_signal" ] && signal="\\"$vmes_signal\\""',
+    '  local summary="{\\"exitCode\\":$code,\\"signal\\":$signal,\\"durationMs\\":$(($(date +%s%3N) - vmes_started))}"',
+    `  echo "$summary" > "$vmes_dir/${RUN_EXIT_FILE}"`,
+    `  printf '\\n${RUN_END_MARKER} %s\\n' "$summary"`,
+    '}',
+    'trap vmes_end EXIT',
+    'for vmes_sig in INT TERM HUP; do trap "vmes_signal=$vmes_sig; exit $((128 + $(kill -l $vmes_sig)))" "$vmes_sig"; done',
+  ].join('\n');
+}
+
+// Read an end summary (the JSON written by runScriptSetup, or a bare exit code from runs
+// started before summaries existed)
+export function parseRunSummary(text: string): Omit<RemoteRunState, 'running'> | null {
+  try {
+    const summary = JSON.parse(text.trim());
+    if (typeof summary === 'number') {
+      return { exitCode: summary };
+    }
+    if (summary && typeof summary.exitCode === 'number') {
+      return {
+        exitCode: summary.exitCode,
+        signal: typeof summary.signal === 'string' ? summary.signal : null,
+        ...(typeof summary.durationMs === 'number' && { durationMs: summary.durationMs }),
+      };
+    }
+  } catch {
+    // Not a summary
+  }
+  return null;
+}
+
+// Start a script (from the isolated folder) detached in its own process group. The
+// command returns as soon as the run has recorded its process group id.
+export function detachedRunCommand(script: string): string {
+  const wrapped = `echo $$ > ${RUN_PID_FILE}\n${runScriptSetup()}\n${script}`;
+  return `rm -f ${RUN_PID_FILE} ${RUN_EXIT_FILE}; ` +
+    `nohup setsid bash -c ${shellQuote(wrapped)} > ${RUN_LOG_FILE} 2>&1 < /dev/null & ` +
+    `i=0; while [ ! -s ${RUN_PID_FILE} ] && [ "$i" -lt 50 ]; do sleep 0.1; i=$((i + 1)); done; ` +
+    `echo "Run started in the background (process group $(cat ${RUN_PID_FILE}))"`;
+}
+
+// Follow a run's log from a byte offset. The channel ends once the run has ended and
+// the rest of the log has been sent; for finished runs it ends right away.
+//
+// Runs started with detachedRunCommand are followed through their process group. Runs
+// that live elsewhere (e.g. a batch job) pass `aliveCheck`, a shell condition that holds
+// while the run is still going; it is re-checked every FOLLOW_POLL_SECONDS.
+export function tailRunLog(poolKey: string, target: SshTarget, isolatedPath: string, offset: number, aliveCheck?: string): Promise<ClientChannel> {
+  const from = `+${Math.max(0, Math.floor(offset)) + 1}`;
+  const script = aliveCheck ? [
+    `cd ${shellQuote(isolatedPath)} || exit 1`,
+    // Stops with the job, or with the tail once the client goes away. Started from a
+    // subshell so it isn't tail's child; tail would never reap it.
+    `waiter=$( ( while ${aliveCheck} && kill -0 $$ 2>/dev/null; do sleep ${FOLLOW_POLL_SECONDS}; done ) > /dev/null 2>&1 & echo $! )`,
+    // -F: the log only appears once the job starts
+    `exec tail -c ${from} --pid="$waiter" -F ${RUN_LOG_FILE} 2>/dev/null`,
+  ] : [
+    `cd ${shellQuote(isolatedPath)} || exit 1`,
+    `pgid=$(cat ${RUN_PID_FILE} 2>/dev/null)`,
+    `if [ ! -f ${RUN_EXIT_FILE} ] && [ -n "$pgid" ] && kill -0 "$pgid" 2>/dev/null; then`,
+    `  exec tail -c ${from} --pid="$pgid" -f ${RUN_LOG_FILE}`,
+    `fi`,
+    `exec tail -c ${from} ${RUN_LOG_FILE}`,
+  ];
+  return execPooled(poolKey, target, `bash -c ${shellQuote(script.join('\n'))}`);
+}
+
+export async function getRemoteRunState(poolKey: string, target: SshTarget, isolatedPath: string): Promise<RemoteRunState> {
+  const script = [
+    `cd ${shellQuote(isolatedPath)} 2>/dev/null || { echo gone; exit 0; }`,
+    `pgid=$(cat ${RUN_PID_FILE} 2>/dev/null)`,
+    `if [ -f ${RUN_EXIT_FILE} ]; then echo "exit $(cat ${RUN_EXIT_FILE})"`,
+    `elif [ -n "$pgid" ] && kill -0 "$pgid" 2>/dev/null; then echo running`,
+    `else echo gone; fi`,
+  ].join('\n');
+
+  const { stdout } = await runPooledCommand(poolKey, target, `bash -c ${shellQuote(script)}`);
+  const result = stdout.trim().split('\n').pop() || '';
+  if (result === 'running') {
+    return { running: true, exitCode: null };
+  }
+  const summary = result.startsWith('exit ') ? parseRunSummary(result.slice('exit '.length)) : null;
+  return { running: false, exitCode: null, ...summary };
+}
+
+// First of `texts` that appears in a run's log (plain text match), or null
+export async function searchRunLog(poolKey: string, target: SshTarget, isolatedPath: string, texts: string[]): Promise<string | null> {
+  if (!texts.length) {
+    return null;
+  }
+  const patterns = texts.map(text => `-e ${shellQuote(text)}`).join(' ');
+  const { stdout } = await runPooledCommand(poolKey, target,
+    `grep -F -o -m 1 ${patterns} ${shellQuote(`${isolatedPath}/${RUN_LOG_FILE}`)} 2>/dev/null | head -n 1`);
+  const found = stdout.replace(/\n$/, '');
+  return texts.find(text => text === found) ?? null;
+}
+
+// Up to `maxBytes` of a run's log from byte `offset`, or null when there is no log
+export async function readRunLogBytes(poolKey: string, target: SshTarget, isolatedPath: string, offset: number, maxBytes: number): Promise<Buffer | null> {
+  const logFile = shellQuote(`${isolatedPath}/${RUN_LOG_FILE}`);
+  const channel = await execPooled(poolKey, target,
+    `[ -f ${logFile} ] || exit 3; tail -c +${Math.max(0, Math.floor(offset)) + 1} ${logFile} | head -c ${maxBytes}`);
+
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    channel.on('data', (data: Buffer) => {
+      chunks.push(data);
+    }).on('close', (code: number | null) => {
+      resolve(code === 3 ? null : Buffer.concat(chunks));
+    });
+    channel.stderr.resume();
+  });
+}
+
+// Stop a run's process group: SIGINT first so the job can clean up, then SIGTERM and
+// finally SIGKILL if it is still alive after the grace period. Resolves to the signal
+// that ended it.
+export async function stopRunProcessGroup(poolKey: string, target: SshTarget, isolatedPath: string): Promise<StopOutcome> {
+  const pidFile = shellQuote(`${isolatedPath}/${RUN_PID_FILE}`);
+  const script = [
+    `[ -f ${pidFile} ] || { echo not-running; exit 0; }`,
+    `pgid=$(cat ${pidFile})`,
+    `alive() { kill -0 -- "-$pgid" 2>/dev/null; }`,
+    `alive || { echo not-running; exit 0; }`,
+    `for sig in INT TERM KILL; do`,
+    `  kill -s "$sig" -- "-$pgid" 2>/dev/null`,
+    `  i=0; while [ "$i" -lt ${SIGNAL_GRACE_SECONDS} ]; do alive || { echo "stopped $sig"; exit 0; }; sleep 1; i=$((i + 1)); done`,
+    `done`,
+    `echo unknown`,
+  ].join('\n');
+
+  const { stdout } = await runPooledCommand(poolKey, target, `bash -c ${shellQuote(script)}`);
+  const result = stdout.trim().split('\n').pop() || '';
+  if (result.startsWith('stopped ')) {
+    return result.slice('stopped '.length) as StopOutcome;
+  }
+  return result === 'not-running' ? 'not-running' : 'unknown';
+}
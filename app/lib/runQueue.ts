@@ -0,0 +1,463 @@
+// Starting model runs, and queueing them past the concurrency limits
+//
+// /api/model-run starts a direct run right away while its user and the server are under
+// the limits in the runs config (maxRunningPerUser, maxRunningTotal). Otherwise the run
+// is recorded as queued and started from here once a slot frees up: queued runs go in
+// queue order, skipping users who are still at their own limit. SLURM runs are left to
+// the scheduler, so they are never queued and don't count against the limits.
+//
+// A queued run's launch command and the session to start it with (by its lookup key, see
+// getSessionKey) are kept in a file next to the run registry, so the queue survives
+// restarts. A client following a queued run
+// keeps its stream open and follows the run's log once it starts; without one the run
+// starts in the background.
+import { SshTarget, toSshErrorDetails } from './sshConnection';
+import { execPooled, getPooledClient } from './sshPool';
+import { getServerConfig, resolveDataPath } from './serverConfig';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { findSessionByKey, listActiveSessions, SessionData } from './sessionStore';
+import { getSessionTarget, withComputeNode } from './sessionAuth';
+import { finishRun, getRun, listRunsWithStatus, RunRecord, subscribeRunEnded, updateRun } from './runRegistry';
+import { attachRunLog, refreshRunStatus, RunStream } from './runMonitor';
+import { RunStreamMessage } from './runStreamProtocol';
+import { recordRunEnd, recordRunEvent } from './runLogs';
+import { cancelSlurmJob, parseSubmittedJobId } from './slurm';
+import { stopRunProcessGroup } from './runProcess';
+
+// How often running runs are checked while something is queued, so runs that ended with
+// nobody watching free their slot
+const QUEUE_CHECK_INTERVAL_MS = 15000;
+
+// What it takes to start a run
+export interface RunLaunch {
+  // Lookup key of the session that submitted the run (see getSessionKey)
+  sessionKey: string;
+  // Shell command that prepares the isolated folder and starts the run detached
+  command: string;
+  // Project folder copied into the isolated folder, for the progress messages
+  sourcePath: string;
+}
+
+interface QueueState {
+  // Streams of clients waiting for a queued run to start, and the last position they were told
+  waiting: Map<string, { stream: RunStream; position: number }>;
+  checkTimer: NodeJS.Timeout | null;
+  checking: boolean;
+}
+
+// One queue per server process, even when route modules are bundled separately
+const globalForRunQueue = globalThis as unknown as {
+  vmesRunQueue?: QueueState;
+};
+
+function getQueueState(): QueueState {
+  if (!globalForRunQueue.vmesRunQueue) {
+    globalForRunQueue.vmesRunQueue = { waiting: new Map(), checkTimer: null, checking: false };
+    subscribeRunEnded(handleRunEnded);
+    // Runs queued before a restart
+    startQueueChecks();
+    setImmediate(dispatchQueuedRuns);
+  }
+  return globalForRunQueue.vmesRunQueue;
+}
+
+function getLaunchStorePath(): string {
+  return resolveDataPath(getServerConfig().runs.queueFilePath);
+}
+
+function readLaunches(): Record<string, RunLaunch> {
+  return readJsonFile<Record<string, RunLaunch>>(getLaunchStorePath(), {});
+}
+
+function removeLaunch(runId: string): void {
+  const launches = readLaunches();
+  if (launches[runId]) {
+    delete launches[runId];
+    writeJsonFile(getLaunchStorePath(), launches);
+  }
+}
+
+// Runs that count against the limits
+function countedRunningRuns(): RunRecord[] {
+  return listRunsWithStatus('running').filter(run => run.backend !== 'slurm');
+}
+
+// Queued runs in the order they will start
+function listQueuedRuns(): RunRecord[] {
+  return listRunsWithStatus('queued').sort((a, b) => (a.queueRank ?? 0) - (b.queueRank ?? 0));
+}
+
+// Whether a new direct run for `user` can start now rather than wait in the queue. The
+// user's own queued runs count too, so a new run never overtakes them.
+export function canStartRun(user: string): boolean {
+  const { maxRunningPerUser, maxRunningTotal } = getServerConfig().runs;
+  const running = countedRunningRuns();
+  if (maxRunningTotal > 0 && running.length >= maxRunningTotal) {
+    return false;
+  }
+  const userRuns = [...running, ...listQueuedRuns()].filter(run => run.user === user).length;
+  return maxRunningPerUser <= 0 || userRuns < maxRunningPerUser;
+}
+
+// 1-based place of each queued run in the queue
+export function getQueuePositions(): Map<string, number> {
+  getQueueState();
+  return new Map(listQueuedRuns().map((run, index) => [run.id, index + 1]));
+}
+
+// Put a run created as queued at the back of the queue. `stream` follows it until it starts.
+export function enqueueRun(run: RunRecord, launch: RunLaunch, stream: RunStream): void {
+  const launches = readLaunches();
+  launches[run.id] = launch;
+  writeJsonFile(getLaunchStorePath(), launches);
+
+  const lastRank = Math.max(0, ...listQueuedRuns().map(queued => queued.queueRank ?? 0));
+  updateRun(run.id, { queuedAt: run.startedAt, queueRank: lastRank + 1 });
+
+  followQueuedRun(run.id, stream);
+  startQueueChecks();
+}
+
+// Keep `stream` open until the queued run starts, then follow its log. A run is followed
+// by one stream at a time; an earlier one is closed.
+export function followQueuedRun(runId: string, stream: RunStream): void {
+  const { waiting } = getQueueState();
+  const previous = waiting.get(runId);
+  if (previous) {
+    previous.stream.send({ type: 'status', message: 'Now followed from another window' });
+    previous.stream.close();
+  }
+
+  const position = getQueuePositions().get(runId) ?? 0;
+  waiting.set(runId, { stream, position });
+  stream.send({ type: 'status', message: queuedMessage(position) });
+  stream.onDisconnect(() => {
+    if (waiting.get(runId)?.stream === stream) {
+      waiting.delete(runId);
+    }
+  });
+}
+
+function queuedMessage(position: number): string {
+  const { maxRunningPerUser, maxRunningTotal } = getServerConfig().runs;
+  const limits = [
+    ...(maxRunningPerUser > 0 ? [`${maxRunningPerUser} running per user`] : []),
+    ...(maxRunningTotal > 0 ? [`${maxRunningTotal} in total`] : []),
+  ].join(', ');
+  return `Run is queued at position ${position} (limit: ${limits}); it starts when a slot frees up`;
+}
+
+// Move one of a user's queued runs ahead of (or behind) their next queued run. Runs of
+// other users keep their places. Returns false when there is nothing to swap with.
+export function moveQueuedRun(runId: string, direction: 'up' | 'down'): boolean {
+  const run = getRun(runId);
+  if (!run || run.status !== 'queued') {
+    return false;
+  }
+
+  const own = listQueuedRuns().filter(queued => queued.user === run.user);
+  const index = own.findIndex(queued => queued.id === runId);
+  const other = own[direction === 'up' ? index - 1 : index + 1];
+  if (!other) {
+    return false;
+  }
+
+  updateRun(run.id, { queueRank: other.queueRank });
+  updateRun(other.id, { queueRank: run.queueRank });
+  notifyQueuePositions();
+  return true;
+}
+
+// Take a run out of the queue; it is recorded as cancelled
+export function dropQueuedRun(runId: string): RunRecord | undefined {
+  const run = getRun(runId);
+  if (!run || run.status !== 'queued') {
+    return run;
+  }
+  removeLaunch(runId);
+  updateRun(runId, { cancelRequestedAt: Date.now() });
+  // Recorded first so a client waiting for the run gets it before its stream is closed
+  recordRunEnd(runId, { type: 'error', status: 'cancelled', exitCode: null, message: `Run ${run.folderName} was removed from the queue` });
+  return finishRun(runId, null);
+}
+
+function handleRunEnded(run: RunRecord): void {
+  const { waiting } = getQueueState();
+  const waiter = waiting.get(run.id);
+  if (waiter) {
+    // Ended while still queued; the end is in the run's log
+    waiting.delete(run.id);
+    waiter.stream.close();
+  }
+  // finishRun may be called from within dispatchQueuedRuns, which must finish first
+  setImmediate(dispatchQueuedRuns);
+}
+
+// The target of a run through a session, with the session's token (the SSH pool key)
+function getRunTarget(token: string, session: SessionData, run: RunRecord): { poolKey: string; target: SshTarget } | null {
+  const sessionTarget = getSessionTarget(session);
+  const target = sessionTarget && withComputeNode(sessionTarget, run.nodeId);
+  return target && target.host.id === run.hostId ? { poolKey: token, target } : null;
+}
+
+// The target a queued run is started on, through the session that submitted it
+function getLaunchTarget(launch: RunLaunch, run: RunRecord): { poolKey: string; target: SshTarget } | null {
+  const found = findSessionByKey(launch.sessionKey);
+  return found ? getRunTarget(found[0], found[1], run) : null;
+}
+
+// A live session the run's user has on the run's host, to check the run through
+function findCheckTarget(run: RunRecord): { poolKey: string; target: SshTarget } | null {
+  for (const [token, session] of listActiveSessions()) {
+    const found = session.hostname === run.user && session.hostId === run.hostId ? getRunTarget(token, session, run) : null;
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+// Start as many queued runs as the limits allow
+function dispatchQueuedRuns(): void {
+  const { maxRunningPerUser, maxRunningTotal } = getServerConfig().runs;
+  const running = countedRunningRuns();
+  const runningPerUser = new Map<string, number>();
+  running.forEach(run => runningPerUser.set(run.user, (runningPerUser.get(run.user) ?? 0) + 1));
+  let runningTotal = running.length;
+
+  const launches = readLaunches();
+  const { waiting } = getQueueState();
+  for (const run of listQueuedRuns()) {
+    if (maxRunningTotal > 0 && runningTotal >= maxRunningTotal) {
+      break;
+    }
+    if (maxRunningPerUser > 0 && (runningPerUser.get(run.user) ?? 0) >= maxRunningPerUser) {
+      continue;
+    }
+
+    const launch = launches[run.id];
+    const found = launch && getLaunchTarget(launch, run);
+    removeLaunch(run.id);
+    if (!found) {
+      const error = launch ? 'Session ended before the run left the queue' : 'Launch details of the queued run were lost';
+      recordRunEnd(run.id, { type: 'error', status: 'failed', exitCode: null, message: `Run ${run.folderName} could not be started: ${error}` });
+      finishRun(run.id, null, error);
+      continue;
+    }
+
+    const started = updateRun(run.id, { status: 'running', startedAt: Date.now(), queueRank: undefined }) ?? run;
+    runningTotal++;
+    runningPerUser.set(run.user, (runningPerUser.get(run.user) ?? 0) + 1);
+
+    const waiter = waiting.get(run.id);
+    waiting.delete(run.id);
+    waiter?.stream.send({ type: 'status', message: `A slot is free, starting ${run.folderName}` });
+    console.log(`Starting queued run ${run.id} (${run.folderName}) for ${run.user}`);
+    startRun(found.target, started, launch, found.poolKey, waiter?.stream ?? null);
+  }
+
+  notifyQueuePositions();
+  if (!listQueuedRuns().length) {
+    stopQueueChecks();
+  }
+}
+
+// Tell waiting clients whose place in the queue changed
+function notifyQueuePositions(): void {
+  const positions = getQueuePositions();
+  for (const [runId, waiter] of getQueueState().waiting) {
+    const position = positions.get(runId);
+    if (position && position !== waiter.position) {
+      waiter.position = position;
+      waiter.stream.send({ type: 'status', message: `Now at position ${position} in the queue` });
+    }
+  }
+}
+
+function startQueueChecks(): void {
+  const state = getQueueState();
+  if (state.checkTimer) {
+    return;
+  }
+  state.checkTimer = setInterval(checkRunningRuns, QUEUE_CHECK_INTERVAL_MS);
+  state.checkTimer.unref();
+}
+
+function stopQueueChecks(): void {
+  const state = getQueueState();
+  if (state.checkTimer) {
+    clearInterval(state.checkTimer);
+    state.checkTimer = null;
+  }
+}
+
+// Record the end of runs that finished unwatched, then start what fits. Running runs can
+// only be checked through a live session of their user on their host; a run nobody can
+// check is failed once it is older than uncheckedRunMaxAgeHours, so it can't hold its
+// slot forever.
+async function checkRunningRuns(): Promise<void> {
+  const state = getQueueState();
+  if (state.checking) {
+    return;
+  }
+  state.checking = true;
+  try {
+    const { uncheckedRunMaxAgeHours } = getServerConfig().runs;
+    for (const run of countedRunningRuns()) {
+      const found = findCheckTarget(run);
+      if (found) {
+        try {
+          await refreshRunStatus(found.poolKey, found.target, run);
+        } catch (error) {
+          console.error(`Could not check run ${run.id}:`, error);
+        }
+      } else if (uncheckedRunMaxAgeHours > 0 && Date.now() - run.startedAt > uncheckedRunMaxAgeHours * 60 * 60 * 1000) {
+        const error = `No session of ${run.user} to check the run through for ${uncheckedRunMaxAgeHours} hours`;
+        console.warn(`Failing unchecked run ${run.id} (${run.folderName}): ${error}`);
+        recordRunEnd(run.id, { type: 'error', status: 'failed', exitCode: null, message: `Run ${run.folderName} was given up on: ${error}` });
+        finishRun(run.id, null, error);
+      }
+    }
+  } finally {
+    state.checking = false;
+    dispatchQueuedRuns();
+  }
+}
+
+// Start a run in the background: prepare its isolated folder and start it detached (or
+// submit it to SLURM), then follow its log if `stream` is there to watch it. Never
+// throws; failures end the run.
+export function startRun(target: SshTarget, run: RunRecord, launch: RunLaunch, poolKey: string, stream: RunStream | null): void {
+  launchRun(target, run, launch, poolKey, stream).catch(error => {
+    console.error('Error starting run:', error);
+    finishRun(run.id, null, error instanceof Error ? error.message : String(error));
+    recordRunEnd(run.id, {
+      type: 'error',
+      status: 'failed',
+      exitCode: null,
+      message: `Unexpected error: ${error instanceof Error ? error.message : String(error)}`
+    });
+    stream?.close();
+  });
+}
+
+// Stop what the launch of a run started, when the run was cancelled while launching.
+// Returns what happened, for the run's log.
+async function stopCancelledLaunch(poolKey: string, target: SshTarget, run: RunRecord): Promise<string> {
+  const jobId = run.backend === 'slurm' ? getRun(run.id)?.slurm?.jobId : undefined;
+  if (jobId && target.host.slurm) {
+    await cancelSlurmJob(poolKey, target, target.host.slurm, jobId);
+    return `Run ${run.folderName} was cancelled while launching; cancelled SLURM job ${jobId}`;
+  }
+  const outcome = await stopRunProcessGroup(poolKey, target, run.isolatedPath);
+  return outcome === 'unknown'
+    ? `Run ${run.folderName} was cancelled while launching, but could not be confirmed stopped after SIGKILL`
+    : `Run ${run.folderName} was cancelled while launching and has been stopped`;
+}
+
+async function launchRun(target: SshTarget, run: RunRecord, launch: RunLaunch, poolKey: string, stream: RunStream | null): Promise<void> {
+  const executionHostLabel = target.node?.label || target.host.label;
+  // Launch messages go to the run's stored log, and from there to whoever is watching
+  const send = (message: RunStreamMessage) => recordRunEvent(run.id, message);
+  const fail = (error: string, message: string, code?: number | null, errorCode?: string) => {
+    finishRun(run.id, code ?? null, error);
+    recordRunEnd(run.id, { type: 'error', status: 'failed', exitCode: code ?? null, code: errorCode, message });
+    stream?.close();
+  };
+  // A cancel that comes before the run has a process group or job id can't stop it; the
+  // launch checks for one before and after starting the run
+  const isCancelled = () => Boolean(getRun(run.id)?.cancelRequestedAt);
+  const endCancelled = (message: string) => {
+    finishRun(run.id, null);
+    recordRunEnd(run.id, { type: 'error', status: 'cancelled', exitCode: null, message });
+    stream?.close();
+  };
+
+  // Reuse the session's pooled connection (opened at login, re-opened if it dropped)
+  try {
+    await getPooledClient(poolKey, target);
+  } catch (error) {
+    const { message, code, originalError } = toSshErrorDetails(error);
+    console.error('SSH connection error:', originalError);
+    fail(message, `SSH connection error: ${message}`, null, code);
+    return;
+  }
+
+  console.log(`SSH Connection established to ${executionHostLabel}`);
+  send({ type: 'status', message: `SSH Connection established to ${executionHostLabel}` });
+  send({ type: 'status', message: `Creating isolated execution environment: ${run.folderName}` });
+  send({ type: 'status', message: `Setting up isolated environment: ${run.folderName}` });
+  send({ type: 'status', message: `Copying files from ${launch.sourcePath} to ${run.isolatedPath}` });
+  console.log(`Executing isolated setup command: ${launch.command}`);
+
+  if (isCancelled()) {
+    endCancelled(`Run ${run.folderName} was cancelled before it started`);
+    return;
+  }
+
+  let channel;
+  try {
+    channel = await execPooled(poolKey, target, launch.command);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Error executing isolated setup command:', error);
+    fail(message, `Error setting up isolated environment ${run.folderName}: ${message}`);
+    return;
+  }
+
+  // Launch output, searched for the SLURM job id once the command is done
+  let launchOutput = '';
+  const code = await new Promise<number | null>((resolve) => {
+    channel.on('close', (exitCode: number | null, signal?: string) => {
+      console.log(`Isolated environment launch finished with code: ${exitCode}, signal: ${signal} for: ${run.folderName}`);
+      resolve(exitCode ?? null);
+    }).on('data', (data: Buffer) => {
+      launchOutput += data.toString();
+      const dataString = data.toString().trim();
+      console.log(`STDOUT: ${dataString}`);
+      if (dataString) {
+        send({ type: 'stdout', message: dataString });
+      }
+    }).stderr.on('data', (data: Buffer) => {
+      const dataString = data.toString().trim();
+      console.error(`STDERR: ${dataString}`);
+      if (dataString) {
+        send({ type: 'stderr', message: dataString });
+      }
+    });
+  });
+
+  if (code !== 0) {
+    fail('Failed to start the run', `Isolated environment ${run.folderName} setup failed with exit code ${code}`, code);
+    return;
+  }
+
+  if (run.backend === 'slurm' && run.slurm) {
+    const jobId = parseSubmittedJobId(launchOutput);
+    if (!jobId) {
+      fail('sbatch did not report a job id', `Submitting ${run.folderName} to SLURM failed: sbatch did not report a job id`);
+      return;
+    }
+    updateRun(run.id, { slurm: { ...run.slurm, jobId } });
+    send({ type: 'status', message: `Submitted SLURM job ${jobId} to partition ${run.slurm.partition || '(default)'}` });
+  }
+
+  if (isCancelled()) {
+    let message: string;
+    try {
+      message = await stopCancelledLaunch(poolKey, target, run);
+    } catch (error) {
+      console.error(`Error stopping cancelled run ${run.id}:`, error);
+      message = `Run ${run.folderName} was cancelled while launching, but could not be stopped: ${toSshErrorDetails(error).message}`;
+    }
+    endCancelled(message);
+    return;
+  }
+
+  send({ type: 'status', message: `Isolated environment setup running for ${run.folderName}...` });
+  if (!stream) {
+    return;
+  }
+  // Follow the run's log until it ends; closing the page only stops the tail
+  await attachRunLog(stream, poolKey, target, getRun(run.id) ?? run);
+}
@@ -0,0 +1,98 @@
+// Named run recipes defined in the server config (see RunRecipe in serverConfig.ts)
+import { getServerConfig, HostProfile, RunCompletionRules, RunRecipe } from './serverConfig';
+import { resolveHostPaths } from './hostProfiles';
+import { shellQuote } from './runProcess';
+import { compileMetricRule } from './runMetrics';
+
+export type { RunCompletionRules, RunRecipe };
+
+// Recipe details that are safe to send to the browser
+export interface PublicRunRecipe {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+// What runs did before recipes were configurable
+const defaultRecipe: RunRecipe = {
+  id: 'envsetup',
+  label: 'envSetup.sh',
+  description: 'Sources envSetup.sh from the project folder',
+  setupCommands: [],
+  entryCommand: 'source envSetup.sh',
+  env: {},
+  completion: {
+    successOutput: [],
+    failureOutput: [],
+  },
+};
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function getRunRecipes(): RunRecipe[] {
+  const recipes = getServerConfig().recipes;
+  if (!recipes.length) {
+    return [defaultRecipe];
+  }
+
+  return recipes.map(recipe => {
+    const env = Object.fromEntries(Object.entries(recipe.env || {}).filter(([name]) => {
+      if (!ENV_NAME_PATTERN.test(name)) {
+        console.warn(`Ignoring invalid environment variable name "${name}" in recipe ${recipe.id}`);
+        return false;
+      }
+      return true;
+    }));
+    const metrics = recipe.metrics?.filter(rule => {
+      try {
+        compileMetricRule(rule);
+        return true;
+      } catch (error) {
+        console.warn(`Ignoring metric rule of recipe ${recipe.id}: ${error instanceof Error ? error.message : error}`);
+        return false;
+      }
+    });
+    return {
+      ...recipe,
+      setupCommands: recipe.setupCommands || [],
+      entryCommand: recipe.entryCommand || defaultRecipe.entryCommand,
+      env,
+      completion: {
+        successOutput: recipe.completion?.successOutput || [],
+        failureOutput: recipe.completion?.failureOutput || [],
+      },
+      ...(metrics && { metrics }),
+    };
+  });
+}
+
+// The recipe with this id, or the default (first) recipe when no id is given
+export function getRunRecipe(recipeId: string | undefined): RunRecipe | undefined {
+  const recipes = getRunRecipes();
+  return recipeId ? recipes.find(recipe => recipe.id === recipeId) : recipes[0];
+}
+
+export function toPublicRunRecipe(recipe: RunRecipe): PublicRunRecipe {
+  return {
+    id: recipe.id,
+    label: recipe.label,
+    ...(recipe.description && { description: recipe.description }),
+  };
+}
+
+// Project folder and workspace for a run, falling back to the host profile's defaults
+export function resolveRecipePaths(recipe: RunRecipe, host: HostProfile, username: string): { source: string; workspace: string } {
+  const hostPaths = resolveHostPaths(host, username);
+  return {
+    source: recipe.sourceDir ? recipe.sourceDir.replace(/\{user\}/g, username) : hostPaths.source,
+    workspace: recipe.workspaceRoot ? recipe.workspaceRoot.replace(/\{user\}/g, username) : hostPaths.workspace,
+  };
+}
+
+// Shell script for a run, executed from its isolated folder
+export function buildRecipeScript(recipe: RunRecipe): string {
+  return [
+    ...Object.entries(recipe.env).map(([name, value]) => `export ${name}=${shellQuote(value)}`),
+    [...recipe.setupCommands, recipe.entryCommand].join(' && '),
+  ].join('\n');
+}
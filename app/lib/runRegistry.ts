@@ -0,0 +1,210 @@
+// Registry of model runs launched through /api/model-run
+//
+// Every launch gets a record when its isolated folder is chosen, and the record is
+// completed when the remote command ends. Records are kept in the data directory so the
+// run history survives restarts; /api/runs serves them back to their owners.
+//
+// The run queue (runQueue.ts) listens for runs ending through the in-process event bus
+// at the bottom of this file.
+import { randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import { getServerConfig, resolveDataPath, RunCompletionRules, RunMetricRule } from './serverConfig';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+
+// 'queued' runs wait for a free slot before they are started (see runQueue.ts)
+export type RunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// 'direct' runs envSetup.sh on the host itself, 'slurm' submits it as a batch job
+export type RunBackend = 'direct' | 'slurm';
+
+// Resources requested for a SLURM run, and the job it became
+export interface SlurmJobDetails {
+  partition: string;
+  timeLimit: string;
+  cpus: number;
+  memory: string;
+  gpus: number;
+  // Set once sbatch has accepted the job
+  jobId?: string;
+  // Last scheduler state seen, e.g. "PENDING", "RUNNING", "TIMEOUT"
+  state?: string;
+}
+
+// Where a run sits in a parameter sweep: runs launched together from one config template,
+// each with its own values for the sweep's axes
+export interface SweepDetails {
+  id: string;
+  // Shown for the group, e.g. the template's branch name
+  label: string;
+  // 0-based place of this run in the sweep, and how many runs the sweep has
+  index: number;
+  total: number;
+  // Axis values of this run, keyed by their path in the config (e.g. "modelParams.batch_size")
+  values: Record<string, unknown>;
+}
+
+// MLflow run created for a run at launch (see mlflowRuns.ts), which its training logs to
+export interface MlflowRunLink {
+  runId: string;
+  experimentId: string;
+  // The run's page in the MLflow UI
+  url: string;
+}
+
+export interface RunRecord {
+  id: string;
+  // SSH username that launched the run
+  user: string;
+  runName: string;
+  // Isolated folder, e.g. "Signet-06_19_25-11_13_45", and its full remote path
+  folderName: string;
+  isolatedPath: string;
+  hostId: string;
+  hostLabel: string;
+  // Compute node the run executed on, when not the login host itself
+  nodeId?: string;
+  nodeLabel?: string;
+  // Remote path of the uploaded config file the run was started with
+  configFile: string;
+  // Recipe the run was started with, and its completion and artifact rules at the time
+  recipeId?: string;
+  completion?: RunCompletionRules;
+  artifacts?: string[];
+  // Metric rules of the recipe at the time, and the metrics found in the run's output so
+  // far: [step, value] points per metric (see runMetrics.ts)
+  metricRules?: RunMetricRule[];
+  metrics?: Record<string, [number, number][]>;
+  mlflow?: MlflowRunLink;
+  // Missing on runs recorded before backends existed, which were all direct
+  backend?: RunBackend;
+  slurm?: SlurmJobDetails;
+  sweep?: SweepDetails;
+  // When a queued run was submitted, and its place in the queue (lowest goes first)
+  queuedAt?: number;
+  queueRank?: number;
+  startedAt: number;
+  endedAt?: number;
+  exitCode?: number | null;
+  // Signal that ended the run (e.g. "TERM") and how long it ran, from its end marker
+  signal?: string | null;
+  durationMs?: number;
+  status: RunStatus;
+  // Set when the user asked to stop the run; its end is then recorded as cancelled
+  cancelRequestedAt?: number;
+  // Why the run failed when there is no exit code to explain it
+  error?: string;
+  // Pinned runs keep their isolated folder through the workspace retention policy
+  pinned?: boolean;
+  // When the isolated folder was deleted (see runWorkspaces.ts)
+  workspaceDeletedAt?: number;
+}
+
+export type NewRun = Omit<RunRecord, 'id' | 'queuedAt' | 'queueRank' | 'startedAt' | 'status' | 'endedAt' | 'exitCode' | 'signal' | 'durationMs' | 'error' | 'cancelRequestedAt' | 'pinned' | 'workspaceDeletedAt' | 'metrics'>;
+
+// More about a run's end than its exit code
+export interface RunEndDetails {
+  signal?: string | null;
+  durationMs?: number;
+  // Overrides the status implied by the exit code (e.g. when a completion rule failed)
+  status?: 'succeeded' | 'failed';
+}
+
+function getStorePath(): string {
+  return resolveDataPath(getServerConfig().runs.filePath);
+}
+
+function readRuns(): Record<string, RunRecord> {
+  return readJsonFile<Record<string, RunRecord>>(getStorePath(), {});
+}
+
+function writeRuns(runs: Record<string, RunRecord>): void {
+  writeJsonFile(getStorePath(), runs);
+}
+
+// A queued run's startedAt is its submission time until it actually starts
+export function createRun(details: NewRun, status: 'running' | 'queued' = 'running'): RunRecord {
+  const runs = readRuns();
+  const run: RunRecord = {
+    ...details,
+    id: randomBytes(8).toString('hex'),
+    startedAt: Date.now(),
+    status,
+  };
+  runs[run.id] = run;
+  writeRuns(runs);
+  return run;
+}
+
+export function getRun(id: string): RunRecord | undefined {
+  return readRuns()[id];
+}
+
+// Runs launched by a user, newest first
+export function listRuns(user: string): RunRecord[] {
+  return Object.values(readRuns())
+    .filter(run => run.user === user)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Runs of every user in one state, oldest first
+export function listRunsWithStatus(status: RunStatus): RunRecord[] {
+  return Object.values(readRuns())
+    .filter(run => run.status === status)
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export function updateRun(id: string, changes: Partial<Omit<RunRecord, 'id'>>): RunRecord | undefined {
+  const runs = readRuns();
+  if (!runs[id]) {
+    return undefined;
+  }
+  runs[id] = { ...runs[id], ...changes };
+  writeRuns(runs);
+  return runs[id];
+}
+
+// Record how a run ended (a queued run can end without ever starting). Only the first
+// call counts, so a late close event can't overwrite an earlier outcome. A cancel
+// request always ends it as cancelled.
+export function finishRun(id: string, exitCode: number | null, error?: string, details: RunEndDetails = {}): RunRecord | undefined {
+  const run = getRun(id);
+  if (!run || (run.status !== 'running' && run.status !== 'queued')) {
+    return run;
+  }
+  const ended = updateRun(id, {
+    endedAt: Date.now(),
+    exitCode,
+    status: run.cancelRequestedAt ? 'cancelled' : details.status ?? (exitCode === 0 ? 'succeeded' : 'failed'),
+    ...(details.signal !== undefined && { signal: details.signal }),
+    ...(details.durationMs !== undefined && { durationMs: details.durationMs }),
+    ...(error && { error }),
+  });
+  if (ended) {
+    getRunEvents().emit(RUN_ENDED_EVENT, ended);
+  }
+  return ended;
+}
+
+// In-process event bus, one per server process. The end of any run is emitted under
+// RUN_ENDED_EVENT; what happens during a run goes to its stored log (see runLogs.ts).
+const RUN_ENDED_EVENT = 'run-ended';
+
+const globalForRunEvents = globalThis as unknown as {
+  vmesRunEvents?: EventEmitter;
+};
+
+function getRunEvents(): EventEmitter {
+  if (!globalForRunEvents.vmesRunEvents) {
+    globalForRunEvents.vmesRunEvents = new EventEmitter();
+    globalForRunEvents.vmesRunEvents.setMaxListeners(0);
+  }
+  return globalForRunEvents.vmesRunEvents;
+}
+
+export function subscribeRunEnded(listener: (run: RunRecord) => void): () => void {
+  const events = getRunEvents();
+  events.on(RUN_ENDED_EVENT, listener);
+  return () => {
+    events.off(RUN_ENDED_EVENT, listener);
+  };
+}
@@ -0,0 +1,96 @@
+// Wire format of run event streams (/api/model-run, /api/runs/<id>/log and the replay
+// in /api/runs/<id>/history)
+//
+// Protocol version 1. Every event is a JSON object with:
+//   v          protocol version (RUN_STREAM_PROTOCOL_VERSION)
+//   runId      run the event belongs to
+//   seq        number of the event in the run's log, counting from 1
+//   ts         server time of the event, in ms since the epoch
+//   stream     'stdout' | 'stderr' for the run's output, 'status' for everything else
+//   type       'stdout' | 'stderr' | 'status' | 'success' | 'error'
+//   message    one line of output, or a status message
+//   offset     output only: byte offset in the remote log just past the line
+//   metrics    output only, when the run's recipe found metrics in the line (see
+//              runMetrics.ts): { step, values: { <metric>: <number> } }
+//   code       error code of a failure (e.g. of the SSH connection), when known
+//   end        true on the terminal event, which reports how the run ended through
+//              status, exitCode, signal and durationMs. It is the last event of the run.
+//   transient  true on notices about the connection rather than the run (attached, queue
+//              position, stopped following). They aren't stored in the run's log, and
+//              repeat the seq of the last run event sent before them.
+//
+// The run events of a run and their seq are the same for every client and every
+// connection (they are read from the run's stored log, see runLogs.ts), so clients can
+// drop events whose seq they have seen, and resume with /api/runs/<id>/log?after=<seq>.
+//
+// Events are sent as NDJSON, one event per line, or as server-sent events with
+// ?format=sse or "Accept: text/event-stream". Server-sent run events carry their seq as
+// the event id, so a reconnecting EventSource-style client resumes through Last-Event-ID.
+import { RunLogEntry } from './runLogs';
+import { MetricValues } from './runMetrics';
+
+export const RUN_STREAM_PROTOCOL_VERSION = 1;
+
+// A message about a run, before it is numbered and stamped
+export interface RunStreamMessage {
+  type: 'status' | 'stdout' | 'stderr' | 'success' | 'error';
+  message: string;
+  offset?: number;
+  code?: string;
+  // Terminal event only
+  status?: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  durationMs?: number;
+}
+
+export interface RunStreamEvent extends RunStreamMessage {
+  v: typeof RUN_STREAM_PROTOCOL_VERSION;
+  runId: string;
+  seq: number;
+  ts: number;
+  stream: 'stdout' | 'stderr' | 'status';
+  metrics?: MetricValues;
+  end?: boolean;
+  transient?: boolean;
+}
+
+export type RunStreamFormat = 'ndjson' | 'sse';
+
+// Format asked for by a request: ?format=sse or ?format=ndjson, else its Accept header
+export function getRunStreamFormat(request: Request): RunStreamFormat {
+  const format = new URL(request.url).searchParams.get('format');
+  if (format === 'sse' || format === 'ndjson') {
+    return format;
+  }
+  return request.headers.get('accept')?.includes('text/event-stream') ? 'sse' : 'ndjson';
+}
+
+export function toRunStreamEvent(runId: string, entry: RunLogEntry, transient = false): RunStreamEvent {
+  const { seq, ts, ...message } = entry;
+  return {
+    v: RUN_STREAM_PROTOCOL_VERSION,
+    runId,
+    seq,
+    ts,
+    stream: message.type === 'stdout' || message.type === 'stderr' ? message.type : 'status',
+    ...message,
+    ...(transient && { transient: true }),
+  };
+}
+
+export function encodeRunStreamEvent(event: RunStreamEvent, format: RunStreamFormat): string {
+  if (format === 'ndjson') {
+    return JSON.stringify(event) + '\n';
+  }
+  // Transient events have no id, so they don't move a client's Last-Event-ID
+  return `${event.transient ? '' : `id: ${event.seq}\n`}data: ${JSON.stringify(event)}\n\n`;
+}
+
+export function runStreamHeaders(format: RunStreamFormat): Record<string, string> {
+  return {
+    'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  };
+}
@@ -0,0 +1,51 @@
+// Parameter sweeps: one config template expanded over a grid of values
+//
+// The uploader expands the template and launches every combination through
+// /api/model-run like any other run, sending the sweep fields read here so the runs can
+// be shown as one group (see SweepDetails in runRegistry.ts).
+import { SweepDetails } from './runRegistry';
+
+const SWEEP_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// The most runs one sweep may launch
+export const MAX_SWEEP_RUNS = 100;
+
+// Read the sweep fields of a run request: "sweepId", "sweepLabel", "sweepIndex",
+// "sweepTotal" and "sweepValues" (JSON object). No sweepId means the run is not part of one.
+export function parseSweepDetails(formData: FormData): { sweep?: SweepDetails; error?: string } {
+  const field = (name: string) => ((formData.get(name) as string | null) || '').trim();
+
+  const id = field('sweepId');
+  if (!id) {
+    return {};
+  }
+  if (!SWEEP_ID_PATTERN.test(id)) {
+    return { error: `Invalid sweep id: ${id}` };
+  }
+
+  const index = Number(field('sweepIndex'));
+  const total = Number(field('sweepTotal'));
+  if (!Number.isInteger(total) || total < 1 || total > MAX_SWEEP_RUNS || !Number.isInteger(index) || index < 0 || index >= total) {
+    return { error: `Invalid sweep position ${field('sweepIndex')} of ${field('sweepTotal')} (at most ${MAX_SWEEP_RUNS} runs per sweep)` };
+  }
+
+  let values: unknown;
+  try {
+    values = JSON.parse(field('sweepValues') || '{}');
+  } catch {
+    values = null;
+  }
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return { error: 'sweepValues must be a JSON object' };
+  }
+
+  return {
+    sweep: {
+      id,
+      label: field('sweepLabel').substring(0, 100) || id,
+      index,
+      total,
+      values: values as Record<string, unknown>,
+    },
+  };
+}
@@ -0,0 +1,291 @@
+// Isolated run folders left in the workspaces, and cleaning them up
+//
+// Every launch copies the project folder into a new isolated folder under its recipe's
+// workspace root (see /api/model-run), and nothing removes it once the run has ended.
+// Folders are listed with their sizes (from du) and linked to the runs recorded for them.
+// Users can delete them by hand; the retention policy in the server config
+// (workspaces.retention) is applied on a schedule for every logged-in user, and can be
+// previewed as a dry run first. Folders of queued or running runs are never deleted, nor
+// are those of pinned runs.
+//
+// Only folders the user owns that are named like isolated folders
+// (<runName>-MM_DD_YY-HH_MM_SS) or belong to one of their runs are listed, so nothing
+// else kept in a workspace root is touched. Folders are looked at from the login host;
+// compute nodes are assumed to share its home folders.
+import * as path from 'path';
+import { SshTarget } from './sshConnection';
+import { runPooledCommand } from './sshPool';
+import { getServerConfig, WorkspaceRetentionConfig } from './serverConfig';
+import { listActiveSessions, SessionData } from './sessionStore';
+import { getSessionTarget } from './sessionAuth';
+import { getRunRecipes, resolveRecipePaths } from './runRecipes';
+import { resolveHostPaths } from './hostProfiles';
+import { getRun, listRuns, RunStatus, updateRun } from './runRegistry';
+import { shellQuote } from './runProcess';
+import { catchUpRunLog } from './runMonitor';
+
+export interface WorkspaceFolder {
+  path: string;
+  name: string;
+  runName: string;
+  // From the folder name, else from its run, else the folder's modification time
+  createdAt: number;
+  sizeBytes: number;
+  runId?: string;
+  runStatus?: RunStatus;
+  pinned: boolean;
+}
+
+// A folder the retention policy would delete, and why
+export interface RetentionRemoval {
+  folder: WorkspaceFolder;
+  reason: string;
+}
+
+export interface RetentionResult {
+  dryRun: boolean;
+  policy: WorkspaceRetentionConfig;
+  removals: RetentionRemoval[];
+  deleted: string[];
+  failed: WorkspaceDeleteFailure[];
+}
+
+export interface WorkspaceDeleteFailure {
+  path: string;
+  message: string;
+}
+
+// <runName>-MM_DD_YY-HH_MM_SS, as /api/model-run names isolated folders
+const FOLDER_NAME_PATTERN = /^(.+)-(\d{2})_(\d{2})_(\d{2})-(\d{2})_(\d{2})_(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Workspace roots of the host profile and of every recipe, for this user
+export function getWorkspaceRoots(target: SshTarget): string[] {
+  const roots = [
+    resolveHostPaths(target.host, target.username).workspace,
+    ...getRunRecipes().map(recipe => resolveRecipePaths(recipe, target.host, target.username).workspace),
+  ];
+  return [...new Set(roots.map(root => root.replace(/\/+$/, '')))];
+}
+
+// Folder names carry the server's local time of the launch
+function parseFolderTime(name: string): number | null {
+  const match = name.match(FOLDER_NAME_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [month, day, year, hours, minutes, seconds] = match.slice(2).map(Number);
+  return new Date(2000 + year, month - 1, day, hours, minutes, seconds).getTime();
+}
+
+function isActive(folder: WorkspaceFolder): boolean {
+  return folder.runStatus === 'queued' || folder.runStatus === 'running';
+}
+
+export async function listWorkspaceFolders(poolKey: string, target: SshTarget): Promise<WorkspaceFolder[]> {
+  const roots = getWorkspaceRoots(target);
+  const script = [
+    `for root in ${roots.map(shellQuote).join(' ')}; do`,
+    `  for dir in "$root"/*/; do`,
+    `    dir=\${dir%/}`,
+    `    [ -d "$dir" ] && [ ! -L "$dir" ] && [ -O "$dir" ] || continue`,
+    `    printf '%s\\t%s\\t%s\\n' "$(stat -c %Y -- "$dir")" "$(du -sk -- "$dir" | cut -f1)" "$dir"`,
+    `  done`,
+    `done`,
+  ].join('\n');
+  const { stdout } = await runPooledCommand(poolKey, target, `bash -c ${shellQuote(script)}`);
+
+  const runs = new Map(
+    listRuns(target.username)
+      .filter(run => run.hostId === target.host.id)
+      .map(run => [run.isolatedPath.replace(/\/+$/, ''), run])
+  );
+
+  const folders: WorkspaceFolder[] = [];
+  for (const line of stdout.split('\n')) {
+    const [modifiedAt, sizeKb, ...rest] = line.split('\t');
+    const folderPath = rest.join('\t');
+    if (!folderPath) {
+      continue;
+    }
+    const name = path.posix.basename(folderPath);
+    const run = runs.get(folderPath);
+    const folderTime = parseFolderTime(name);
+    if (!run && folderTime === null) {
+      continue;
+    }
+    folders.push({
+      path: folderPath,
+      name,
+      runName: run?.runName ?? name.match(FOLDER_NAME_PATTERN)![1],
+      createdAt: folderTime ?? run?.startedAt ?? Number(modifiedAt) * 1000,
+      sizeBytes: (Number(sizeKb) || 0) * 1024,
+      ...(run && { runId: run.id, runStatus: run.status }),
+      pinned: Boolean(run?.pinned),
+    });
+  }
+  return folders.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Folders the policy would delete: past the newest keepLastPerRunName of their run name,
+// or older than maxAgeDays. Active runs and (with keepPinned) pinned runs are kept.
+export function planRetention(folders: WorkspaceFolder[], policy: WorkspaceRetentionConfig, now = Date.now()): RetentionRemoval[] {
+  const seenPerRunName = new Map<string, number>();
+  const removals: RetentionRemoval[] = [];
+
+  for (const folder of [...folders].sort((a, b) => b.createdAt - a.createdAt)) {
+    const newerCount = seenPerRunName.get(folder.runName) ?? 0;
+    seenPerRunName.set(folder.runName, newerCount + 1);
+    if (isActive(folder) || (policy.keepPinned && folder.pinned)) {
+      continue;
+    }
+
+    if (policy.keepLastPerRunName > 0 && newerCount >= policy.keepLastPerRunName) {
+      removals.push({ folder, reason: `Not among the ${policy.keepLastPerRunName} newest of ${folder.runName}` });
+    } else if (policy.maxAgeDays > 0 && now - folder.createdAt > policy.maxAgeDays * DAY_MS) {
+      removals.push({ folder, reason: `Older than ${policy.maxAgeDays} days` });
+    }
+  }
+  return removals;
+}
+
+async function removeFolders(poolKey: string, target: SshTarget, folders: WorkspaceFolder[]): Promise<{ deleted: string[]; failed: WorkspaceDeleteFailure[] }> {
+  if (!folders.length) {
+    return { deleted: [], failed: [] };
+  }
+
+  // The run log goes with the folder, so store what is left of it first
+  for (const folder of folders) {
+    const run = folder.runId ? getRun(folder.runId) : undefined;
+    if (run) {
+      await catchUpRunLog(poolKey, target, run);
+    }
+  }
+
+  const script = [
+    `for dir in ${folders.map(folder => shellQuote(folder.path)).join(' ')}; do`,
+    `  rm -rf -- "$dir" 2>/dev/null`,
+    `  if [ -e "$dir" ]; then printf 'failed\\t%s\\n' "$dir"; else printf 'deleted\\t%s\\n' "$dir"; fi`,
+    `done`,
+  ].join('\n');
+  const { stdout } = await runPooledCommand(poolKey, target, `bash -c ${shellQuote(script)}`);
+  const results = new Map(stdout.split('\n').filter(Boolean).map(line => {
+    const [result, ...rest] = line.split('\t');
+    return [rest.join('\t'), result];
+  }));
+
+  const deleted: string[] = [];
+  const failed: WorkspaceDeleteFailure[] = [];
+  for (const folder of folders) {
+    if (results.get(folder.path) === 'deleted') {
+      deleted.push(folder.path);
+      if (folder.runId) {
+        updateRun(folder.runId, { workspaceDeletedAt: Date.now() });
+      }
+    } else {
+      failed.push({ path: folder.path, message: 'Could not delete the folder (permission denied?)' });
+    }
+  }
+  return { deleted, failed };
+}
+
+// Delete folders picked by the user. Only listed folders qualify, and not those of
+// active or pinned runs.
+export async function deleteWorkspaceFolders(poolKey: string, target: SshTarget, paths: string[]): Promise<{ deleted: string[]; failed: WorkspaceDeleteFailure[] }> {
+  const folders = new Map((await listWorkspaceFolders(poolKey, target)).map(folder => [folder.path, folder]));
+  const failed: WorkspaceDeleteFailure[] = [];
+  const toDelete: WorkspaceFolder[] = [];
+
+  for (const requested of new Set(paths.map(item => item.replace(/\/+$/, '')))) {
+    const folder = folders.get(requested);
+    if (!folder) {
+      failed.push({ path: requested, message: 'Not an isolated run folder in your workspaces' });
+    } else if (isActive(folder)) {
+      failed.push({ path: requested, message: `Its run is still ${folder.runStatus}` });
+    } else if (folder.pinned) {
+      failed.push({ path: requested, message: 'Its run is pinned; unpin it first' });
+    } else {
+      toDelete.push(folder);
+    }
+  }
+
+  const removed = await removeFolders(poolKey, target, toDelete);
+  return { deleted: removed.deleted, failed: [...failed, ...removed.failed] };
+}
+
+// Apply the configured retention policy to the user's folders, or only report what it
+// would delete
+export async function applyRetention(poolKey: string, target: SshTarget, dryRun: boolean): Promise<RetentionResult> {
+  const policy = getServerConfig().workspaces.retention;
+  const removals = planRetention(await listWorkspaceFolders(poolKey, target), policy);
+  const { deleted, failed } = dryRun
+    ? { deleted: [], failed: [] }
+    : await removeFolders(poolKey, target, removals.map(removal => removal.folder));
+  return { dryRun, policy, removals, deleted, failed };
+}
+
+interface CleanupState {
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+}
+
+// One schedule per server process, even when route modules are bundled separately
+const globalForWorkspaces = globalThis as unknown as {
+  vmesWorkspaceCleanup?: CleanupState;
+};
+
+// Start applying the retention policy every cleanupIntervalMs; the timer never keeps the
+// process alive
+export function startWorkspaceCleanup(): void {
+  if (globalForWorkspaces.vmesWorkspaceCleanup) {
+    return;
+  }
+
+  const state: CleanupState = { timer: null, running: false };
+  globalForWorkspaces.vmesWorkspaceCleanup = state;
+  const { cleanupIntervalMs } = getServerConfig().workspaces;
+  if (cleanupIntervalMs > 0) {
+    state.timer = setInterval(runScheduledCleanup, cleanupIntervalMs);
+    state.timer.unref();
+  }
+}
+
+// The policy runs over SSH as each user, so only users with a live session are cleaned up
+async function runScheduledCleanup(): Promise<void> {
+  const state = globalForWorkspaces.vmesWorkspaceCleanup!;
+  const { retention } = getServerConfig().workspaces;
+  if (state.running || (!retention.keepLastPerRunName && !retention.maxAgeDays)) {
+    return;
+  }
+
+  state.running = true;
+  try {
+    // The longest-lived session of each user on each host
+    const sessions = new Map<string, [string, SessionData]>();
+    for (const [token, session] of listActiveSessions()) {
+      const key = `${session.hostId}:${session.hostname}`;
+      const current = sessions.get(key);
+      if (!current || current[1].expiresAt < session.expiresAt) {
+        sessions.set(key, [token, session]);
+      }
+    }
+
+    for (const [token, session] of sessions.values()) {
+      const target = getSessionTarget(session);
+      if (!target) {
+        continue;
+      }
+      try {
+        const result = await applyRetention(token, target, false);
+        if (result.deleted.length || result.failed.length) {
+          console.log(`Workspace cleanup for ${session.hostname}@${session.hostId}: deleted ${result.deleted.length} folder(s), ${result.failed.length} failed`);
+        }
+      } catch (error) {
+        console.error(`Workspace cleanup for ${session.hostname}@${session.hostId} failed:`, error);
+      }
+    }
+  } finally {
+    state.running = false;
+  }
+}
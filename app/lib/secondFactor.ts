@@ -0,0 +1,156 @@
+// Per-user second factor: TOTP secrets plus one-time recovery codes
+//
+// Enrollment is two-step: startEnrollment() issues a secret and recovery codes that stay
+// pending until confirmEnrollment() sees a valid code from the user's authenticator app.
+// At login, checkSecondFactor() runs before any SSH connection is attempted and
+// consumeSecondFactor() marks the code as used once the login has succeeded.
+import { createHash, randomBytes } from 'crypto';
+import { getServerConfig, resolveDataPath } from './serverConfig';
+import { readJsonFile, writeJsonFile } from './jsonFile';
+import { buildOtpauthUri, generateTotpSecret, matchTotpCode } from './totp';
+
+interface SecondFactorRecord {
+  secret: string;
+  // SHA-256 hashes of the recovery codes that have not been used yet
+  recoveryCodes: string[];
+  createdAt: number;
+  // Pending until the user proves their authenticator app works
+  confirmedAt?: number;
+  // Last TOTP time step accepted, so a code can't be replayed
+  lastUsedStep?: number;
+}
+
+export interface EnrollmentDetails {
+  secret: string;
+  otpauthUri: string;
+  recoveryCodes: string[];
+}
+
+// A code that passed checkSecondFactor() and still has to be consumed
+export type SecondFactorMatch =
+  | { kind: 'totp'; step: number }
+  | { kind: 'recovery'; hash: string };
+
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+function getStorePath(): string {
+  return resolveDataPath(getServerConfig().secondFactor.filePath);
+}
+
+function readRecords(): Record<string, SecondFactorRecord> {
+  return readJsonFile<Record<string, SecondFactorRecord>>(getStorePath(), {});
+}
+
+function writeRecords(records: Record<string, SecondFactorRecord>): void {
+  writeJsonFile(getStorePath(), records);
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+// Codes look like "k7mzq-3xh9p"
+function generateRecoveryCode(): string {
+  const bytes = randomBytes(10);
+  const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+export function isEnrolled(username: string): boolean {
+  return Boolean(readRecords()[username]?.confirmedAt);
+}
+
+// Create (or replace) a pending enrollment. Refuses users who are already enrolled.
+export function startEnrollment(username: string): EnrollmentDetails | null {
+  const records = readRecords();
+  if (records[username]?.confirmedAt) {
+    return null;
+  }
+
+  const { issuer, recoveryCodeCount } = getServerConfig().secondFactor;
+  const secret = generateTotpSecret();
+  const recoveryCodes = Array.from({ length: recoveryCodeCount }, generateRecoveryCode);
+
+  records[username] = {
+    secret,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    createdAt: Date.now(),
+  };
+  writeRecords(records);
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, username, issuer),
+    recoveryCodes,
+  };
+}
+
+// Activate a pending enrollment once the user enters a valid code
+export function confirmEnrollment(username: string, code: string): boolean {
+  const records = readRecords();
+  const record = records[username];
+  if (!record || record.confirmedAt) {
+    return false;
+  }
+
+  const step = matchTotpCode(record.secret, code);
+  if (step === null) {
+    return false;
+  }
+
+  records[username] = { ...record, confirmedAt: Date.now(), lastUsedStep: step };
+  writeRecords(records);
+  return true;
+}
+
+// Check a TOTP or recovery code without using it up
+export function checkSecondFactor(username: string, code: string): SecondFactorMatch | null {
+  const record = readRecords()[username];
+  if (!record?.confirmedAt || !code) {
+    return null;
+  }
+
+  const step = matchTotpCode(record.secret, code);
+  if (step !== null) {
+    return step > (record.lastUsedStep ?? -1) ? { kind: 'totp', step } : null;
+  }
+
+  const hash = hashRecoveryCode(code);
+  return record.recoveryCodes.includes(hash) ? { kind: 'recovery', hash } : null;
+}
+
+// Mark a checked code as used. Returns false if it was used in the meantime.
+export function consumeSecondFactor(username: string, match: SecondFactorMatch): boolean {
+  const records = readRecords();
+  const record = records[username];
+  if (!record) {
+    return false;
+  }
+
+  if (match.kind === 'totp') {
+    if (match.step <= (record.lastUsedStep ?? -1)) {
+      return false;
+    }
+    records[username] = { ...record, lastUsedStep: match.step };
+  } else {
+    if (!record.recoveryCodes.includes(match.hash)) {
+      return false;
+    }
+    records[username] = { ...record, recoveryCodes: record.recoveryCodes.filter(hash => hash !== match.hash) };
+    console.log(`Recovery code used by ${username}, ${records[username].recoveryCodes.length} remaining`);
+  }
+
+  writeRecords(records);
+  return true;
+}
+
+// Remove a user's second factor so they can enroll again (admin use)
+export function resetSecondFactor(username: string): boolean {
+  const records = readRecords();
+  if (!records[username]) {
+    return false;
+  }
+  delete records[username];
+  writeRecords(records);
+  return true;
+}
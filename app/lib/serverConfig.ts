@@ -0,0 +1,378 @@
+// Server-side configuration for the application
+//
+// Settings are read once from vmes.config.json in the project root (or the file named by
+// $VMES_CONFIG) and merged over the defaults below. A few settings can also be overridden
+// through environment variables, which take precedence over the file.
+// See vmes.config.example.json for a complete example.
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type SessionStoreBackend = 'memory' | 'file';
+
+export interface SessionStoreConfig {
+  // 'memory' loses sessions on restart and is meant for development only
+  backend: SessionStoreBackend;
+  // Where the file backend keeps its sessions; relative paths resolve against dataDir
+  filePath: string;
+  // Key the file backend encrypts its sessions (tokens and SSH credentials) with, created
+  // on first use; relative paths resolve against dataDir. Keep it out of backups of the
+  // sessions file. Losing it logs everyone out.
+  keyFilePath: string;
+  // How often expired sessions are swept out of the store
+  sweepIntervalMs: number;
+}
+
+// A machine only reachable through its host profile's login node (ProxyJump-style).
+// Connections to it are tunnelled through the session's login connection and use the
+// same username and credentials.
+export interface ComputeNode {
+  // Identifier sent with upload and run requests, e.g. "gpu01"
+  id: string;
+  label: string;
+  // Address as seen from the login node
+  address: string;
+  port: number;
+}
+
+// SLURM scheduler reachable from a host profile's login node. Runs can be submitted to it
+// with sbatch instead of being started directly on the login node.
+export interface SlurmConfig {
+  // Partitions users can choose from; the first one is the default
+  partitions: string[];
+  // Defaults for the per-run resource fields
+  defaultTimeLimit: string;
+  defaultCpus: number;
+  defaultMemory: string;
+  defaultGpus: number;
+  // Scheduler commands as run on the login node. Point these at stand-in scripts to try
+  // the backend without a cluster.
+  commands: {
+    sbatch: string;
+    squeue: string;
+    sacct: string;
+    scancel: string;
+  };
+}
+
+export interface HostProfile {
+  // Stable identifier stored in sessions, e.g. "login1"
+  id: string;
+  // Name shown on the login page and in the status bar
+  label: string;
+  address: string;
+  port: number;
+  // Default remote paths; "{user}" is replaced with the SSH username
+  paths: {
+    // Where the uploader puts files by default
+    upload: string;
+    // Project folder copied into each isolated run
+    source: string;
+    // Parent folder of the isolated run folders
+    workspace: string;
+    // Root of the remote file browser; uploads must go inside it. Defaults to /home/{user}.
+    files?: string;
+  };
+  // Nodes behind this login host that uploads and runs can target instead of the login node
+  computeNodes?: ComputeNode[];
+  // Offers SLURM batch submission for runs on this host (fields left out use defaults)
+  slurm?: SlurmConfig;
+  // ssh-agent UNIX socket on this server that logins to this host may authenticate
+  // through. The agent proves nothing about who logs in: the second factor is all that
+  // stands between a username its keys open and anyone who asks for it, and it has to be
+  // set up with a password or private key first. Only set it for an agent holding keys
+  // meant to be shared that way. Left out, agent logins are refused.
+  agentSocket?: string;
+}
+
+// Output that decides whether a run that exited with status 0 succeeded, matched as
+// plain text against its log once it has ended: any failure text fails it, and when
+// success texts are given at least one of them must appear.
+export interface RunCompletionRules {
+  successOutput: string[];
+  failureOutput: string[];
+}
+
+// Turns lines of a run's output into metric values (see runMetrics.ts)
+export interface RunMetricRule {
+  // "keyValue" takes every key=value (or key: value) pair with a number for a value;
+  // "regex" takes the named groups of `pattern` that matched a number
+  parser: 'keyValue' | 'regex';
+  // regex: the pattern (case-sensitive); keyValue: when given, only matching lines are parsed
+  pattern?: string;
+  // Metrics to keep; left out, all of them are
+  keys?: string[];
+  // Value used as the x axis instead of being charted, e.g. "epoch"; with keyValue it
+  // may also be written "epoch 3". Left out, lines with metrics are numbered in order.
+  step?: string;
+}
+
+// How a kind of project is run. Users pick a recipe in the uploader; every run gets a
+// fresh copy of sourceDir inside workspaceRoot and runs its commands there.
+export interface RunRecipe {
+  // Identifier sent with run requests, e.g. "signet"
+  id: string;
+  label: string;
+  description?: string;
+  // Project folder and parent of the isolated run folders; "{user}" is replaced with the
+  // SSH username. Left out, the host profile's paths.source / paths.workspace are used.
+  sourceDir?: string;
+  workspaceRoot?: string;
+  // Run in order before the entry command; the run fails if one of them does
+  setupCommands: string[];
+  entryCommand: string;
+  // Exported for the setup and entry commands
+  env: Record<string, string>;
+  completion: RunCompletionRules;
+  // Which files in a run's isolated folder are offered as artifacts: globs relative to the
+  // folder ("*" within a folder, "**" across folders), "!" to exclude. Left out, every file is.
+  artifacts?: string[];
+  // Metrics charted while the run streams and saved with it; the first rule that finds
+  // any in a line is used
+  metrics?: RunMetricRule[];
+}
+
+export interface KnownHostsConfig {
+  // Pinned host keys; relative paths resolve against dataDir
+  filePath: string;
+  // When true a host key seen for the first time must be approved by an admin before use;
+  // when false the first key seen is trusted automatically (plain trust-on-first-use)
+  requireApproval: boolean;
+}
+
+export interface SecondFactorConfig {
+  // Per-user TOTP secrets and recovery codes; relative paths resolve against dataDir
+  filePath: string;
+  // Issuer name shown in authenticator apps
+  issuer: string;
+  // How many one-time recovery codes are issued at enrollment
+  recoveryCodeCount: number;
+}
+
+export interface SshPoolConfig {
+  // Keepalive probes on pooled connections; after keepaliveCountMax missed replies the
+  // connection is considered dead and is re-opened on next use
+  keepaliveIntervalMs: number;
+  keepaliveCountMax: number;
+  // Pooled connections with no open channels are closed after this long
+  idleTimeoutMs: number;
+}
+
+export interface LoginThrottleConfig {
+  // Failed attempts and lockouts; relative paths resolve against dataDir
+  filePath: string;
+  // Failed attempts allowed per username / per client IP before a lockout
+  maxAttemptsPerUser: number;
+  maxAttemptsPerIp: number;
+  // Failures older than this are forgotten
+  attemptWindowMs: number;
+  // The first lockout lasts baseLockoutMs and each further one doubles it, up to maxLockoutMs
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+  // Reverse proxies in front of the app that append to X-Forwarded-For. The client IP is
+  // the entry this many places from the end; 0 means clients connect directly and are
+  // told apart by their socket address, with X-Forwarded-For ignored.
+  trustedProxyHops: number;
+}
+
+export interface RunRegistryConfig {
+  // Record of every model run launched; relative paths resolve against dataDir
+  filePath: string;
+  // Launch details of queued runs (see runQueue.ts); relative paths resolve against dataDir
+  queueFilePath: string;
+  // Stored copies of run logs (see runLogs.ts); relative paths resolve against dataDir
+  logDir: string;
+  // Direct runs allowed to run at once per user and in total before new ones are
+  // queued; 0 means no limit. SLURM runs are left to the scheduler and don't count.
+  maxRunningPerUser: number;
+  maxRunningTotal: number;
+  // While runs are queued, running runs are checked through a live session of their user
+  // on their host. One that can't be checked (nobody logged in) is failed once it has
+  // been running this long, so it stops holding a slot; 0 keeps it running.
+  uncheckedRunMaxAgeHours: number;
+}
+
+// Which isolated run folders the scheduled cleanup removes (see runWorkspaces.ts). A
+// folder goes once it is past either limit; 0 turns a limit off.
+export interface WorkspaceRetentionConfig {
+  // Newest folders kept for each run name
+  keepLastPerRunName: number;
+  maxAgeDays: number;
+  // Folders of runs their users pinned are kept regardless of the limits
+  keepPinned: boolean;
+}
+
+export interface WorkspaceConfig {
+  retention: WorkspaceRetentionConfig;
+  // How often the retention policy is applied for logged-in users; 0 turns it off
+  cleanupIntervalMs: number;
+}
+
+// MLflow tracking server launches can create their runs in (see mlflowRuns.ts)
+export interface MlflowConfig {
+  // Base URL of the tracking server, as reachable from this server and from the hosts
+  // runs train on; empty turns MLflow runs off
+  trackingUri: string;
+  // Experiment offered in the uploader
+  defaultExperimentId: string;
+  requestTimeoutMs: number;
+  // Address users open this app at, e.g. "https://vmes.example.org", for the link from an
+  // MLflow run back to its model run; empty leaves the link out
+  appUrl: string;
+}
+
+export interface ServerConfig {
+  // Directory for everything the server persists between restarts
+  dataDir: string;
+  sessionStore: SessionStoreConfig;
+  // SSH hosts users can log in to; the first one is the default
+  hosts: HostProfile[];
+  knownHosts: KnownHostsConfig;
+  secondFactor: SecondFactorConfig;
+  sshPool: SshPoolConfig;
+  loginThrottle: LoginThrottleConfig;
+  runs: RunRegistryConfig;
+  workspaces: WorkspaceConfig;
+  mlflow: MlflowConfig;
+  // Run recipes offered in the uploader; the first one is the default. When none are
+  // configured a single recipe runs "source envSetup.sh" (see runRecipes.ts).
+  recipes: RunRecipe[];
+}
+
+const defaultConfig: ServerConfig = {
+  dataDir: '.vmes-data',
+  sessionStore: {
+    backend: 'file',
+    filePath: 'sessions.json',
+    keyFilePath: 'sessions.key',
+    sweepIntervalMs: 5 * 60 * 1000,
+  },
+  hosts: [
+    {
+      id: 'cair-login',
+      label: 'CAIR.LOGIN',
+      address: '10.250.0.22',
+      port: 22,
+      paths: {
+        upload: '/home/{user}/loading',
+        source: '/home/{user}/loading',
+        workspace: '/home/{user}/vmes',
+      },
+    },
+  ],
+  knownHosts: {
+    filePath: 'known_hosts.json',
+    requireApproval: true,
+  },
+  secondFactor: {
+    filePath: 'second_factor.json',
+    issuer: 'VMES',
+    recoveryCodeCount: 10,
+  },
+  sshPool: {
+    keepaliveIntervalMs: 15000,
+    keepaliveCountMax: 4,
+    idleTimeoutMs: 15 * 60 * 1000,
+  },
+  loginThrottle: {
+    filePath: 'login_attempts.json',
+    maxAttemptsPerUser: 5,
+    maxAttemptsPerIp: 20,
+    attemptWindowMs: 15 * 60 * 1000,
+    baseLockoutMs: 60 * 1000,
+    maxLockoutMs: 60 * 60 * 1000,
+    trustedProxyHops: 0,
+  },
+  runs: {
+    filePath: 'runs.json',
+    queueFilePath: 'run_queue.json',
+    logDir: 'run-logs',
+    maxRunningPerUser: 2,
+    maxRunningTotal: 8,
+    uncheckedRunMaxAgeHours: 72,
+  },
+  workspaces: {
+    retention: {
+      keepLastPerRunName: 0,
+      maxAgeDays: 0,
+      keepPinned: true,
+    },
+    cleanupIntervalMs: 6 * 60 * 60 * 1000,
+  },
+  mlflow: {
+    trackingUri: '',
+    defaultExperimentId: '0',
+    requestTimeoutMs: 10000,
+    appUrl: '',
+  },
+  recipes: [],
+};
+
+let cachedConfig: ServerConfig | null = null;
+
+// Read the JSON config file if there is one
+function readConfigFile(): Partial<ServerConfig> {
+  const configPath = path.resolve(process.env.VMES_CONFIG || 'vmes.config.json');
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    console.error(`Failed to read server config from ${configPath}:`, error);
+    return {};
+  }
+}
+
+export function getServerConfig(): ServerConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const fileConfig = readConfigFile();
+  const config: ServerConfig = {
+    ...defaultConfig,
+    ...fileConfig,
+    sessionStore: { ...defaultConfig.sessionStore, ...fileConfig.sessionStore },
+    hosts: fileConfig.hosts?.length ? fileConfig.hosts : defaultConfig.hosts,
+    knownHosts: { ...defaultConfig.knownHosts, ...fileConfig.knownHosts },
+    secondFactor: { ...defaultConfig.secondFactor, ...fileConfig.secondFactor },
+    sshPool: { ...defaultConfig.sshPool, ...fileConfig.sshPool },
+    loginThrottle: { ...defaultConfig.loginThrottle, ...fileConfig.loginThrottle },
+    runs: { ...defaultConfig.runs, ...fileConfig.runs },
+    workspaces: {
+      ...defaultConfig.workspaces,
+      ...fileConfig.workspaces,
+      retention: { ...defaultConfig.workspaces.retention, ...fileConfig.workspaces?.retention },
+    },
+    mlflow: { ...defaultConfig.mlflow, ...fileConfig.mlflow },
+    recipes: fileConfig.recipes || defaultConfig.recipes,
+  };
+
+  // Environment overrides
+  if (process.env.VMES_DATA_DIR) {
+    config.dataDir = process.env.VMES_DATA_DIR;
+  }
+  if (process.env.SESSION_STORE_BACKEND) {
+    config.sessionStore.backend = process.env.SESSION_STORE_BACKEND as SessionStoreBackend;
+  }
+  if (process.env.SESSION_STORE_FILE) {
+    config.sessionStore.filePath = process.env.SESSION_STORE_FILE;
+  }
+  if (process.env.SESSION_STORE_KEY_FILE) {
+    config.sessionStore.keyFilePath = process.env.SESSION_STORE_KEY_FILE;
+  }
+  if (process.env.MLFLOW_TRACKING_URI) {
+    config.mlflow.trackingUri = process.env.MLFLOW_TRACKING_URI;
+  }
+  config.mlflow.trackingUri = config.mlflow.trackingUri.replace(/\/+$/, '');
+
+  config.dataDir = path.resolve(config.dataDir);
+  cachedConfig = config;
+  return config;
+}
+
+// Resolve a path inside the data directory (absolute paths are returned unchanged)
+export function resolveDataPath(...segments: string[]): string {
+  return path.resolve(getServerConfig().dataDir, ...segments);
+}
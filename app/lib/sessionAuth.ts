@@ -0,0 +1,47 @@
+// Helpers for resolving the caller's session from an incoming API request
+import { getActiveSession, SessionData } from './sessionStore';
+import { getComputeNode, getHostProfile } from './hostProfiles';
+import { SshTarget } from './sshConnection';
+
+export interface RequestSession {
+  token: string;
+  session: SessionData;
+}
+
+// Read the session token from the "Authorization: Bearer <token>" header
+export function getSessionToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header || !header.toLowerCase().startsWith('bearer ')) {
+    return null;
+  }
+  const token = header.slice(7).trim();
+  return token || null;
+}
+
+// Resolve the live session for a request, or null if missing/expired
+export function getRequestSession(request: Request): RequestSession | null {
+  const token = getSessionToken(request);
+  if (!token) {
+    return null;
+  }
+  const session = getActiveSession(token);
+  return session ? { token, session } : null;
+}
+
+// SSH target (host profile, username, credentials) a session connects to.
+// Null when the session's host profile has been removed from the config.
+export function getSessionTarget(session: SessionData): SshTarget | null {
+  const host = getHostProfile(session.hostId);
+  return host ? { host, username: session.hostname, credentials: session.credentials } : null;
+}
+
+
+// Point a target at one of its host's compute nodes (reached through the login host).
+// An empty node id keeps the login host; an unknown one gives null.
+export function withComputeNode(target: SshTarget, nodeId: string | null | undefined): SshTarget | null {
+  if (!nodeId) {
+    return target;
+  }
+  const node = getComputeNode(target.host, nodeId);
+  return node ? { ...target, node } : null;
+}
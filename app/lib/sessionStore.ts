@@ -1,42 +1,234 @@
 // Shared session store for the application
-// In production, this should be replaced with Redis or a database
+//
+// Sessions are kept by a pluggable backend chosen through the server config
+// (sessionStore.backend): 'file' persists them across server restarts, encrypted with a
+// key only the server reads, 'memory' keeps them in-process for development. Expired
+// sessions are swept periodically.
+import * as fs from 'fs';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { SshCredentials } from './sshCredentials';
+import { getServerConfig, resolveDataPath } from './serverConfig';
+import { readJsonFile, writeJsonFile } from './jsonFile';
 
 export interface SessionData {
-  ip: string;
+  // Host profile the user logged in to (see hostProfiles.ts)
+  hostId: string;
   hostname: string;
+  // SSH credentials stay on the server; the browser only ever holds the token
+  credentials: SshCredentials;
   expiresAt: number;
 }
 
-// In-memory session store
-const sessionStore = new Map<string, SessionData>();
+// Storage backend behind the session functions below
+export interface SessionBackend {
+  get(token: string): SessionData | undefined;
+  set(token: string, data: SessionData): void;
+  delete(token: string): boolean;
+  has(token: string): boolean;
+  entries(): [string, SessionData][];
+}
+
+// Sessions live for 24 hours after a successful login
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// What the file backend writes: the sessions as JSON, encrypted with AES-256-GCM
+interface EncryptedSessions {
+  encrypted: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const SESSION_KEY_BYTES = 32;
+
+// In-memory backend - everyone is logged out when the server restarts
+export function createMemorySessionBackend(): SessionBackend {
+  const sessions = new Map<string, SessionData>();
+
+  return {
+    get: (token) => sessions.get(token),
+    set: (token, data) => {
+      sessions.set(token, data);
+    },
+    delete: (token) => sessions.delete(token),
+    has: (token) => sessions.has(token),
+    entries: () => Array.from(sessions.entries()),
+  };
+}
+
+// The file backend's key, created (readable by the server user only) when there is none
+export function loadSessionKey(keyFilePath: string): Buffer {
+  if (!fs.existsSync(keyFilePath)) {
+    fs.mkdirSync(path.dirname(keyFilePath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(keyFilePath, randomBytes(SESSION_KEY_BYTES).toString('hex') + '\n', { mode: 0o600, flag: 'wx' });
+    console.log(`Created session store key ${keyFilePath}`);
+  }
+  const key = Buffer.from(fs.readFileSync(keyFilePath, 'utf8').trim(), 'hex');
+  if (key.length !== SESSION_KEY_BYTES) {
+    throw new Error(`Session store key ${keyFilePath} must be ${SESSION_KEY_BYTES * 2} hex characters`);
+  }
+  return key;
+}
+
+function encryptSessions(key: Buffer, sessions: Record<string, SessionData>): EncryptedSessions {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(sessions), 'utf8'), cipher.final()]);
+  return { encrypted: 'aes-256-gcm', iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+}
+
+function decryptSessions(key: Buffer, stored: EncryptedSessions): Record<string, SessionData> {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(stored.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+  const data = Buffer.concat([decipher.update(Buffer.from(stored.data, 'base64')), decipher.final()]);
+  return JSON.parse(data.toString('utf8'));
+}
+
+// Sessions in a file written by the file backend. A file from before sessions were
+// encrypted is read as it is; one that doesn't decrypt with `key` gives no sessions.
+function readSessionsFile(filePath: string, key: Buffer): { sessions: Record<string, SessionData>; encrypted: boolean } {
+  const stored = readJsonFile<Partial<EncryptedSessions> & Record<string, unknown>>(filePath, {});
+  if (stored.encrypted !== 'aes-256-gcm') {
+    return { sessions: stored as Record<string, SessionData>, encrypted: false };
+  }
+  try {
+    return { sessions: decryptSessions(key, stored as EncryptedSessions), encrypted: true };
+  } catch (error) {
+    console.error(`Could not decrypt ${filePath} (was the session store key replaced?), starting empty:`, error);
+    return { sessions: {}, encrypted: true };
+  }
+}
+
+// File backend - sessions are cached in memory and written through to a JSON file,
+// encrypted with `key` (see loadSessionKey)
+export function createFileSessionBackend(filePath: string, key: Buffer): SessionBackend {
+  const stored = readSessionsFile(filePath, key);
+  const sessions = new Map<string, SessionData>(Object.entries(stored.sessions));
+
+  const persist = () => {
+    writeJsonFile(filePath, encryptSessions(key, Object.fromEntries(sessions)));
+  };
+  // Don't leave the sessions of an older, unencrypted file readable
+  if (!stored.encrypted && sessions.size) {
+    persist();
+  }
+
+  return {
+    get: (token) => sessions.get(token),
+    set: (token, data) => {
+      sessions.set(token, data);
+      persist();
+    },
+    delete: (token) => {
+      const deleted = sessions.delete(token);
+      if (deleted) {
+        persist();
+      }
+      return deleted;
+    },
+    has: (token) => sessions.has(token),
+    entries: () => Array.from(sessions.entries()),
+  };
+}
+
+// Keep a single backend per server process, even when route modules are bundled separately
+const globalForSessions = globalThis as unknown as {
+  vmesSessionBackend?: SessionBackend;
+  vmesSessionSweeper?: NodeJS.Timeout;
+};
+
+function getBackend(): SessionBackend {
+  if (globalForSessions.vmesSessionBackend) {
+    return globalForSessions.vmesSessionBackend;
+  }
+
+  const { sessionStore: storeConfig } = getServerConfig();
+  const backend = storeConfig.backend === 'memory'
+    ? createMemorySessionBackend()
+    : createFileSessionBackend(resolveDataPath(storeConfig.filePath), loadSessionKey(resolveDataPath(storeConfig.keyFilePath)));
+  console.log(`Using ${storeConfig.backend} session store`);
+
+  globalForSessions.vmesSessionBackend = backend;
+  startSessionSweeper(storeConfig.sweepIntervalMs);
+  return backend;
+}
+
+// Periodically remove expired sessions; the timer never keeps the process alive
+function startSessionSweeper(intervalMs: number): void {
+  if (globalForSessions.vmesSessionSweeper) {
+    return;
+  }
+
+  globalForSessions.vmesSessionSweeper = setInterval(() => {
+    const cleaned = cleanupExpiredSessions();
+    if (cleaned > 0) {
+      console.log(`Swept ${cleaned} expired session(s)`);
+    }
+  }, intervalMs);
+  globalForSessions.vmesSessionSweeper.unref();
+}
+
+// Generate an opaque, unguessable session token
+export function createSessionToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// What a session is found by in records written to disk (a SHA-256 of its token), so the
+// token itself is never stored there
+export function getSessionKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
 
 export function setSession(token: string, data: SessionData): void {
-  sessionStore.set(token, data);
+  getBackend().set(token, data);
 }
 
 export function getSession(token: string): SessionData | undefined {
-  return sessionStore.get(token);
+  return getBackend().get(token);
+}
+
+// Look up a session and drop it if it has already expired
+export function getActiveSession(token: string): SessionData | undefined {
+  const session = getBackend().get(token);
+  if (session && Date.now() > session.expiresAt) {
+    getBackend().delete(token);
+    return undefined;
+  }
+  return session;
+}
+
+// Sessions that haven't expired, with their tokens
+export function listActiveSessions(): [string, SessionData][] {
+  const now = Date.now();
+  return getBackend().entries().filter(([, data]) => now <= data.expiresAt);
+}
+
+// The live session with a key from getSessionKey, with its token
+export function findSessionByKey(key: string): [string, SessionData] | undefined {
+  return listActiveSessions().find(([token]) => getSessionKey(token) === key);
 }
 
 export function deleteSession(token: string): boolean {
-  return sessionStore.delete(token);
+  return getBackend().delete(token);
 }
 
 export function hasSession(token: string): boolean {
-  return sessionStore.has(token);
+  return getBackend().has(token);
 }
 
-// Clean up expired sessions (call this periodically)
+// Clean up expired sessions (runs periodically via the sweeper)
 export function cleanupExpiredSessions(): number {
+  const backend = getBackend();
   const now = Date.now();
   let cleaned = 0;
-  
-  for (const [token, data] of sessionStore.entries()) {
+
+  for (const [token, data] of backend.entries()) {
     if (now > data.expiresAt) {
-      sessionStore.delete(token);
+      backend.delete(token);
       cleaned++;
     }
   }
-  
+
   return cleaned;
 }
@@ -0,0 +1,147 @@
+// SLURM batch backend for model runs
+//
+// Instead of starting the run's recipe on the login node, its isolated folder gets an
+// sbatch script (RUN_SBATCH_FILE) which is submitted from the login node. The job
+// writes its output to the same log file as a direct run, so following and reattaching
+// work the same way; its state comes from squeue while queued or running and from
+// sacct afterwards. The scheduler commands come from the host profile (see SlurmConfig);
+// test/slurm.test.ts runs them against the stand-ins in test/fixtures/fake-slurm.
+import { SshTarget } from './sshConnection';
+import { SlurmConfig } from './hostProfiles';
+import { SlurmJobDetails } from './runRegistry';
+import { RemoteRunState, RUN_EXIT_FILE, RUN_LOG_FILE, runScriptSetup, shellQuote } from './runProcess';
+import { runPooledCommand } from './sshPool';
+
+export const RUN_SBATCH_FILE = '.vmes-run.sbatch';
+
+export type SlurmJobOptions = Omit<SlurmJobDetails, 'jobId' | 'state'>;
+
+export interface SlurmJobState extends RemoteRunState {
+  // Scheduler state, e.g. "PENDING", "COMPLETED", "TIMEOUT"; "UNKNOWN" if SLURM has
+  // no record of the job
+  state: string;
+}
+
+// [days-]hours[:minutes[:seconds]], or plain minutes, as sbatch --time accepts
+const TIME_LIMIT_PATTERN = /^(\d+-)?\d+(:\d{1,2}){0,2}$/;
+const MEMORY_PATTERN = /^\d+[KMGT]?$/i;
+const PARTITION_PATTERN = /^[\w.-]*$/;
+
+// Read and check the per-run options sent with a run request. Missing fields fall back
+// to the host's defaults.
+export function parseSlurmJobOptions(formData: FormData, config: SlurmConfig): { options?: SlurmJobOptions; error?: string } {
+  const field = (name: string) => ((formData.get(name) as string | null) || '').trim();
+
+  const partition = field('partition') || config.partitions[0] || '';
+  if (!PARTITION_PATTERN.test(partition) || (config.partitions.length > 0 && !config.partitions.includes(partition))) {
+    return { error: `Unknown partition: ${partition}` };
+  }
+
+  const timeLimit = field('timeLimit') || config.defaultTimeLimit;
+  if (!TIME_LIMIT_PATTERN.test(timeLimit)) {
+    return { error: `Invalid time limit: ${timeLimit} (use e.g. 02:00:00 or 1-00:00:00)` };
+  }
+
+  const cpus = field('cpus') ? Number(field('cpus')) : config.defaultCpus;
+  if (!Number.isInteger(cpus) || cpus < 1) {
+    return { error: 'CPUs must be a whole number of at least 1' };
+  }
+
+  const memory = field('memory') || config.defaultMemory;
+  if (!MEMORY_PATTERN.test(memory)) {
+    return { error: `Invalid memory: ${memory} (use e.g. 16G or 4096M)` };
+  }
+
+  const gpus = field('gpus') ? Number(field('gpus')) : config.defaultGpus;
+  if (!Number.isInteger(gpus) || gpus < 0) {
+    return { error: 'GPUs must be a whole number' };
+  }
+
+  return { options: { partition, timeLimit, cpus, memory, gpus } };
+}
+
+// Batch script that runs `script` (see buildRecipeScript) in the isolated folder
+export function buildSbatchScript(runName: string, isolatedPath: string, options: SlurmJobOptions, script: string): string {
+  return [
+    '#!/bin/bash',
+    `#SBATCH --job-name=vmes-${runName}`,
+    ...(options.partition ? [`#SBATCH --partition=${options.partition}`] : []),
+    `#SBATCH --time=${options.timeLimit}`,
+    '#SBATCH --ntasks=1',
+    `#SBATCH --cpus-per-task=${options.cpus}`,
+    `#SBATCH --mem=${options.memory}`,
+    ...(options.gpus > 0 ? [`#SBATCH --gres=gpu:${options.gpus}`] : []),
+    `#SBATCH --chdir=${isolatedPath}`,
+    `#SBATCH --output=${isolatedPath}/${RUN_LOG_FILE}`,
+    '',
+    runScriptSetup(),
+    'echo "SLURM job $SLURM_JOB_ID running on $(hostname)"',
+    script,
+    '',
+  ].join('\n');
+}
+
+// Write the sbatch script into the current (isolated) folder and submit it. Prints
+// "Submitted SLURM job <id>", see parseSubmittedJobId.
+export function slurmSubmitCommand(config: SlurmConfig, script: string): string {
+  return `rm -f ${RUN_LOG_FILE} ${RUN_EXIT_FILE} && ` +
+    `printf '%s' ${shellQuote(script)} > ${RUN_SBATCH_FILE} && ` +
+    `jobid=$(${config.commands.sbatch} --parsable ${RUN_SBATCH_FILE}) && ` +
+    `echo "Submitted SLURM job \${jobid%%;*}"`;
+}
+
+export function parseSubmittedJobId(output: string): string | null {
+  const match = output.match(/Submitted SLURM job (\d+)/);
+  return match ? match[1] : null;
+}
+
+// Shell condition that holds while the job is queued or running
+export function slurmJobAliveCheck(config: SlurmConfig, jobId: string): string {
+  return `[ -n "$(${config.commands.squeue} -h -j ${jobId} -o %T 2>/dev/null)" ]`;
+}
+
+// Command that prints what the scheduler knows about a job, for parseSlurmJobState: its
+// squeue state while it is queued or running, its sacct record afterwards
+export function slurmJobStateCommand(config: SlurmConfig, jobId: string): string {
+  const script = [
+    `state=$(${config.commands.squeue} -h -j ${jobId} -o %T 2>/dev/null | head -n 1)`,
+    `if [ -n "$state" ]; then echo "queue $state"; exit 0; fi`,
+    `echo "acct $(${config.commands.sacct} -n -X -P -j ${jobId} -o State,ExitCode 2>/dev/null | head -n 1)"`,
+  ].join('\n');
+  return `bash -c ${shellQuote(script)}`;
+}
+
+export function parseSlurmJobState(stdout: string): SlurmJobState {
+  const result = stdout.trim().split('\n').pop() || '';
+
+  if (result.startsWith('queue ')) {
+    return { running: true, exitCode: null, state: result.slice('queue '.length).trim() };
+  }
+
+  // sacct: "COMPLETED|0:0", "CANCELLED by 1000|0:15", "FAILED|2:0"
+  const [rawState, rawExitCode] = result.slice('acct '.length).split('|');
+  const state = (rawState || '').trim().split(' ')[0] || 'UNKNOWN';
+  const exitCode = parseInt((rawExitCode || '').split(':')[0], 10);
+  return {
+    running: false,
+    // Only a completed job counts as a success, whatever the script's own status was
+    exitCode: Number.isNaN(exitCode) || (state !== 'COMPLETED' && exitCode === 0) ? null : exitCode,
+    state,
+  };
+}
+
+export async function getSlurmJobState(poolKey: string, target: SshTarget, config: SlurmConfig, jobId: string): Promise<SlurmJobState> {
+  const { stdout } = await runPooledCommand(poolKey, target, slurmJobStateCommand(config, jobId));
+  return parseSlurmJobState(stdout);
+}
+
+export function slurmCancelCommand(config: SlurmConfig, jobId: string): string {
+  return `${config.commands.scancel} ${jobId}`;
+}
+
+export async function cancelSlurmJob(poolKey: string, target: SshTarget, config: SlurmConfig, jobId: string): Promise<void> {
+  const { code, stderr } = await runPooledCommand(poolKey, target, slurmCancelCommand(config, jobId));
+  if (code !== 0) {
+    throw new Error(stderr.trim() || `scancel exited with code ${code}`);
+  }
+}
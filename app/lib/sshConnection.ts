@@ -0,0 +1,188 @@
+// Builds ssh2 connection settings for a host profile and turns connection
+// failures into the messages and status codes the API routes send back
+import { Client, ConnectConfig } from 'ssh2';
+import { ComputeNode, HostProfile } from './hostProfiles';
+import { AUTH_METHOD_LABELS, keyboardInteractiveHandler, SshCredentials, withSshCredentials } from './sshCredentials';
+import { checkHostKey, HostKeyErrorCode, HostKeyFailure } from './knownHosts';
+
+export interface SshTarget {
+  host: HostProfile;
+  username: string;
+  credentials: SshCredentials;
+  // Second hop behind the login host; unset when the login host itself is the target
+  node?: ComputeNode;
+}
+
+// The machine a target ultimately connects to
+export function sshEndpoint(target: SshTarget): { address: string; port: number; label: string } {
+  const { address, port, label } = target.node || target.host;
+  return { address, port, label };
+}
+
+export interface SshConnectSettings {
+  config: ConnectConfig;
+  // Set once the host key has been refused, so the resulting error can be reported precisely
+  getHostKeyFailure: () => HostKeyFailure | null;
+}
+
+export interface SshErrorDetails {
+  status: number;
+  message: string;
+  code?: HostKeyErrorCode;
+  hostKey?: HostKeyFailure;
+}
+
+export interface SshLoginFailure extends SshErrorDetails {
+  originalError: string;
+}
+
+// Connection config for a target, with host key verification against the known_hosts store
+export function createSshConnectSettings(target: SshTarget, options: Partial<ConnectConfig> = {}): SshConnectSettings {
+  const { username, credentials } = target;
+  const { address, port } = sshEndpoint(target);
+  let hostKeyFailure: HostKeyFailure | null = null;
+
+  const config = withSshCredentials({
+    host: address,
+    port,
+    username,
+    ...options,
+    hostVerifier: (key: Buffer) => {
+      hostKeyFailure = checkHostKey(address, port, key);
+      return hostKeyFailure === null;
+    },
+  }, credentials);
+
+  return { config, getHostKeyFailure: () => hostKeyFailure };
+}
+
+// Map an ssh2 connection error to a user-facing message and HTTP status
+export function describeSshError(err: Error, target: SshTarget, hostKeyFailure: HostKeyFailure | null): SshErrorDetails {
+  const { address, port } = sshEndpoint(target);
+
+  if (hostKeyFailure?.code === 'HOST_KEY_MISMATCH') {
+    return {
+      status: 403,
+      code: hostKeyFailure.code,
+      hostKey: hostKeyFailure,
+      message: `The host key for ${hostKeyFailure.host} does not match the pinned key. ` +
+        'Someone may be intercepting the connection (possible man-in-the-middle attack). ' +
+        'The connection was refused; contact an administrator before trying again.',
+    };
+  }
+
+  if (hostKeyFailure?.code === 'HOST_KEY_UNTRUSTED') {
+    return {
+      status: 403,
+      code: hostKeyFailure.code,
+      hostKey: hostKeyFailure,
+      message: `The host key for ${hostKeyFailure.host} (${hostKeyFailure.fingerprint}) has not been approved yet. ` +
+        'An administrator must approve it before connections are allowed.',
+    };
+  }
+
+  if (err.message.includes('timeout') || err.message.includes('Timed out')) {
+    return {
+      status: 500,
+      message: `Connection timed out. Please check if the server at ${address} is reachable and that SSH is running on port ${port}.`,
+    };
+  }
+
+  if (err.message.includes('authentication methods failed')) {
+    return {
+      status: 401,
+      message: `Invalid credentials. Please check your username and ${AUTH_METHOD_LABELS[target.credentials.method]}.`,
+    };
+  }
+
+  if (err.message.includes('ECONNREFUSED')) {
+    return { status: 500, message: `Connection refused. Please check if SSH is running on ${address}:${port}.` };
+  }
+
+  if (err.message.includes('connection reset by peer')) {
+    return {
+      status: 500,
+      message: 'Connection was reset by the server. This could be due to network issues or server configuration.',
+    };
+  }
+
+  return { status: 500, message: err.message };
+}
+
+// Raised when a connection can't be established; carries the details to report
+export class SshConnectionError extends Error {
+  details: SshLoginFailure;
+
+  constructor(details: SshLoginFailure) {
+    super(details.message);
+    this.name = 'SshConnectionError';
+    this.details = details;
+  }
+}
+
+// Open an authenticated connection to a target. This is the only place that creates
+// ssh2 clients; routes get theirs from the connection pool (sshPool.ts).
+export function openSshClient(target: SshTarget, options: Partial<ConnectConfig> = {}, timeoutMs = 10000): Promise<Client> {
+  return new Promise((resolve, reject) => {
+    const conn = new Client();
+    const { config, getHostKeyFailure } = createSshConnectSettings(target, {
+      readyTimeout: Math.min(8000, timeoutMs), // Reduce the internal SSH2 library timeout
+      keepaliveInterval: 2000, // Send keepalive every 2 seconds
+      keepaliveCountMax: 3, // Allow 3 missed keepalives before considering connection dead
+      ...options,
+    });
+    let settled = false;
+
+    // Set a timeout for the entire connection process
+    const timeoutId = setTimeout(() => {
+      settled = true;
+      conn.end();
+      console.error('SSH connection timeout');
+      reject(new SshConnectionError({
+        status: 500,
+        message: `Connection timed out after ${timeoutMs / 1000} seconds. Please check if the server at ${sshEndpoint(target).address} is reachable and that SSH is running on port ${sshEndpoint(target).port}.`,
+        originalError: 'timeout',
+      }));
+    }, timeoutMs);
+
+    conn
+      .once('ready', () => {
+        clearTimeout(timeoutId);
+        settled = true;
+        resolve(conn);
+      })
+      .on('error', (err) => {
+        // Errors after the handshake belong to whoever is using the connection
+        if (settled) return;
+        clearTimeout(timeoutId);
+        settled = true;
+        console.error('SSH connection error:', err.message);
+        reject(new SshConnectionError({ ...describeSshError(err, target, getHostKeyFailure()), originalError: err.message }));
+      })
+      // If we have a password and this is a keyboard-interactive fallback
+      .on('keyboard-interactive', keyboardInteractiveHandler(target.credentials));
+
+    conn.connect(config);
+  });
+}
+
+// Turn anything thrown while talking to a host into reportable error details
+export function toSshErrorDetails(error: unknown): SshLoginFailure {
+  if (error instanceof SshConnectionError) {
+    return error.details;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return { status: 500, message, originalError: message };
+}
+
+// Open a connection just long enough to prove the credentials work.
+// Resolves to null on success, or to the failure to report.
+export async function verifySshLogin(target: SshTarget, timeoutMs = 10000): Promise<SshLoginFailure | null> {
+  try {
+    const conn = await openSshClient(target, {}, timeoutMs);
+    conn.end();
+    return null;
+  } catch (error) {
+    return toSshErrorDetails(error);
+  }
+}
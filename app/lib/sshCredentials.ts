@@ -0,0 +1,110 @@
+// SSH credential handling shared by every route that opens an SSH connection
+import * as fs from 'fs';
+import { ConnectConfig, KeyboardInteractiveCallback, utils } from 'ssh2';
+import { HostProfile } from './serverConfig';
+
+export type SshAuthMethod = 'password' | 'privateKey' | 'agent';
+
+export interface SshCredentials {
+  method: SshAuthMethod;
+  password?: string;
+  // PEM/OpenSSH private key text and the passphrase used to decrypt it
+  privateKey?: string;
+  passphrase?: string;
+  // ssh-agent UNIX socket on the machine running this server, from the host profile
+  agentSocket?: string;
+}
+
+// Human-readable names used in error messages
+export const AUTH_METHOD_LABELS: Record<SshAuthMethod, string> = {
+  password: 'password',
+  privateKey: 'private key',
+  agent: 'ssh-agent',
+};
+
+// Validate the credential fields posted by the auth page for a login to `host`.
+// Returns the normalised credentials, or an error message to show the user.
+export function parseSshCredentials(body: Record<string, unknown>, host: HostProfile): { credentials?: SshCredentials; error?: string } {
+  const method = (body.authMethod || 'password') as SshAuthMethod;
+
+  switch (method) {
+    case 'password': {
+      const password = typeof body.password === 'string' ? body.password : '';
+      if (!password) {
+        return { error: 'Please provide a password' };
+      }
+      return { credentials: { method, password } };
+    }
+
+    case 'privateKey': {
+      const privateKey = typeof body.privateKey === 'string' ? body.privateKey : '';
+      const passphrase = typeof body.passphrase === 'string' && body.passphrase ? body.passphrase : undefined;
+      if (!privateKey.trim()) {
+        return { error: 'Please provide a private key' };
+      }
+
+      // Parse up front so a wrong passphrase is reported as such rather than as a login failure
+      const parsed = utils.parseKey(privateKey, passphrase);
+      if (parsed instanceof Error) {
+        const message = /passphrase|decrypt|bad decrypt/i.test(parsed.message)
+          ? 'Could not decrypt the private key. Please check the passphrase.'
+          : `Invalid private key: ${parsed.message}`;
+        return { error: message };
+      }
+      return { credentials: { method, privateKey, passphrase } };
+    }
+
+    // Only the socket an admin configured for the host; the path is never taken from the
+    // request, and its details stay in the server log
+    case 'agent': {
+      const agentSocket = host.agentSocket;
+      if (!agentSocket) {
+        return { error: `ssh-agent logins are not available for ${host.label}` };
+      }
+      try {
+        if (!fs.statSync(agentSocket).isSocket()) {
+          console.error(`ssh-agent socket of host ${host.id} is not a UNIX socket: ${agentSocket}`);
+          return { error: 'The ssh-agent for this host is not available' };
+        }
+      } catch (error) {
+        console.error(`ssh-agent socket of host ${host.id} not found: ${agentSocket}`, error);
+        return { error: 'The ssh-agent for this host is not available' };
+      }
+      return { credentials: { method, agentSocket } };
+    }
+
+    default:
+      return { error: `Unsupported authentication method: ${String(method)}` };
+  }
+}
+
+// Add the authentication options for the chosen method to an ssh2 connect config
+export function withSshCredentials(config: ConnectConfig, credentials: SshCredentials): ConnectConfig {
+  switch (credentials.method) {
+    case 'privateKey':
+      return { ...config, privateKey: credentials.privateKey, passphrase: credentials.passphrase };
+    case 'agent':
+      return { ...config, agent: credentials.agentSocket };
+    case 'password':
+    default:
+      // Try both password and keyboard-interactive
+      return { ...config, password: credentials.password, tryKeyboard: true };
+  }
+}
+
+// keyboard-interactive listener that answers a single password prompt when we have one
+export function keyboardInteractiveHandler(credentials: SshCredentials) {
+  return (
+    _name: string,
+    _instructions: string,
+    _lang: string,
+    prompts: unknown[],
+    finish: KeyboardInteractiveCallback
+  ) => {
+    if (credentials.method === 'password' && credentials.password && prompts.length === 1) {
+      finish([credentials.password]);
+    } else {
+      finish([]);
+    }
+  };
+}
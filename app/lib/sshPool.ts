@@ -0,0 +1,253 @@
+// Shared SSH connection pool
+//
+// Keeps one authenticated ssh2 client per session token and multiplexes SFTP and exec
+// channels over it, so "Upload & Run" no longer pays for two handshakes. Pooled clients
+// send keepalives; when a link drops (or misses too many keepalives) it is removed from
+// the pool and transparently re-opened the next time the session needs it.
+//
+// Targets with a compute node get their own pooled client, tunnelled with forwardOut
+// through the session's login connection (like ssh -J).
+import { Client, ClientChannel, ExecOptions, SFTPWrapper } from 'ssh2';
+import { openSshClient, SshConnectionError, SshTarget } from './sshConnection';
+import { ComputeNode, getServerConfig } from './serverConfig';
+
+interface PoolEntry {
+  target: SshTarget;
+  client: Promise<Client>;
+  sftp?: Promise<SFTPWrapper>;
+  // Exec channels currently open; entries with open channels are never evicted as idle
+  activeChannels: number;
+  lastUsed: number;
+}
+
+// One pool per server process, even when route modules are bundled separately
+const globalForPool = globalThis as unknown as {
+  vmesSshPool?: Map<string, PoolEntry>;
+  vmesSshPoolSweeper?: NodeJS.Timeout;
+};
+
+function getPool(): Map<string, PoolEntry> {
+  if (!globalForPool.vmesSshPool) {
+    globalForPool.vmesSshPool = new Map();
+    startIdleSweeper();
+  }
+  return globalForPool.vmesSshPool;
+}
+
+// Close connections nobody has used for a while
+function startIdleSweeper(): void {
+  if (globalForPool.vmesSshPoolSweeper) {
+    return;
+  }
+
+  const { idleTimeoutMs } = getServerConfig().sshPool;
+  globalForPool.vmesSshPoolSweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of getPool().entries()) {
+      if (entry.activeChannels === 0 && now - entry.lastUsed > idleTimeoutMs) {
+        console.log(`Closing idle SSH connection for ${entry.target.username}@${entry.target.host.label}`);
+        closePooledClient(key);
+      }
+    }
+  }, Math.min(idleTimeoutMs, 60 * 1000));
+  globalForPool.vmesSshPoolSweeper.unref();
+}
+
+// Compute node connections are pooled next to the session's login connection
+function entryKey(key: string, target: SshTarget): string {
+  return target.node ? `${key}>${target.node.id}` : key;
+}
+
+// Drop an entry, but only if it is still the one in the pool (a reconnect may have replaced it)
+function removeEntry(key: string, entry: PoolEntry): void {
+  const pool = getPool();
+  if (pool.get(key) === entry) {
+    pool.delete(key);
+  }
+}
+
+// Get the pooled client for a key (normally the session token), connecting if needed.
+// Rejects with SshConnectionError when the connection can't be established.
+export function getPooledClient(key: string, target: SshTarget): Promise<Client> {
+  const pool = getPool();
+  const poolKey = entryKey(key, target);
+  const existing = pool.get(poolKey);
+  if (existing) {
+    existing.lastUsed = Date.now();
+    return existing.client;
+  }
+
+  const entry: PoolEntry = {
+    target,
+    activeChannels: 0,
+    lastUsed: Date.now(),
+    client: target.node ? openThroughLoginHost(key, target, target.node) : openSshClient(target, keepaliveOptions()),
+  };
+  pool.set(poolKey, entry);
+
+  const name = `${target.username}@${target.node?.label || target.host.label}`;
+  entry.client.then(
+    (conn) => {
+      console.log(`Pooled SSH connection opened for ${name}`);
+      conn.on('error', (err) => {
+        console.error(`Pooled SSH connection error for ${name}:`, err.message);
+      });
+      conn.on('close', () => {
+        // Next use re-opens the connection
+        console.log(`Pooled SSH connection closed for ${name}`);
+        removeEntry(poolKey, entry);
+      });
+    },
+    () => removeEntry(poolKey, entry)
+  );
+
+  return entry.client;
+}
+
+function keepaliveOptions() {
+  const { keepaliveIntervalMs, keepaliveCountMax } = getServerConfig().sshPool;
+  return { keepaliveInterval: keepaliveIntervalMs, keepaliveCountMax };
+}
+
+// Second hop: open a direct-tcpip channel from the login host to the compute node and run
+// a new SSH session over it
+async function openThroughLoginHost(key: string, target: SshTarget, node: ComputeNode): Promise<Client> {
+  const loginTarget = { ...target, node: undefined };
+  const login = await getPooledClient(key, loginTarget);
+
+  const sock = await new Promise<ClientChannel>((resolve, reject) => {
+    login.forwardOut('127.0.0.1', 0, node.address, node.port, (err, stream) => (err ? reject(err) : resolve(stream)));
+  }).catch((err: Error) => {
+    throw new SshConnectionError({
+      status: 500,
+      message: `Could not reach ${node.label} (${node.address}:${node.port}) from ${target.host.label}: ${err.message}`,
+      originalError: err.message,
+    });
+  });
+
+  // The tunnel keeps the login connection busy, so it isn't closed as idle underneath the node
+  const loginEntry = getPool().get(entryKey(key, loginTarget));
+  if (loginEntry) {
+    loginEntry.activeChannels++;
+    sock.once('close', () => {
+      loginEntry.activeChannels = Math.max(0, loginEntry.activeChannels - 1);
+      loginEntry.lastUsed = Date.now();
+    });
+  }
+
+  try {
+    return await openSshClient(target, { ...keepaliveOptions(), sock });
+  } catch (error) {
+    sock.close();
+    throw error;
+  }
+}
+
+// Shared SFTP channel on the pooled client
+export async function getPooledSftp(key: string, target: SshTarget): Promise<SFTPWrapper> {
+  const conn = await getPooledClient(key, target);
+  const entry = getPool().get(entryKey(key, target));
+  if (!entry) {
+    throw new Error('SSH connection closed while opening SFTP session');
+  }
+
+  if (!entry.sftp) {
+    const sftpPromise = new Promise<SFTPWrapper>((resolve, reject) => {
+      conn.sftp((err, sftp) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        sftp.on('close', () => {
+          if (entry.sftp === sftpPromise) {
+            entry.sftp = undefined;
+          }
+        });
+        resolve(sftp);
+      });
+    });
+    entry.sftp = sftpPromise;
+    sftpPromise.catch(() => {
+      if (entry.sftp === sftpPromise) {
+        entry.sftp = undefined;
+      }
+    });
+  }
+
+  return entry.sftp;
+}
+
+function openExecChannel(conn: Client, command: string, options: ExecOptions): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    conn.exec(command, options, (err, stream) => (err ? reject(err) : resolve(stream)));
+  });
+}
+
+// A channel the server turned down on a connection that is otherwise fine, e.g. at its
+// MaxSessions limit: the channel open failed with a reason code, or the exec request was
+// refused
+function isChannelRefusal(error: unknown): boolean {
+  return error instanceof Error && (typeof (error as { reason?: unknown }).reason === 'number' || error.message === 'Unable to exec');
+}
+
+// Run a command on a new exec channel of the pooled client. If the pooled connection
+// turns out to be dead, it is replaced and the command retried once. A refused channel
+// only fails this command; the connection and everything else on it are left alone.
+export async function execPooled(key: string, target: SshTarget, command: string, options: ExecOptions = {}): Promise<ClientChannel> {
+  let stream: ClientChannel;
+  try {
+    stream = await openExecChannel(await getPooledClient(key, target), command, options);
+  } catch (error) {
+    if (isChannelRefusal(error)) {
+      throw error;
+    }
+    console.warn('Exec on pooled SSH connection failed, reconnecting:', error instanceof Error ? error.message : error);
+    closePooledClient(entryKey(key, target));
+    stream = await openExecChannel(await getPooledClient(key, target), command, options);
+  }
+
+  const entry = getPool().get(entryKey(key, target));
+  if (entry) {
+    entry.activeChannels++;
+    stream.once('close', () => {
+      entry.activeChannels = Math.max(0, entry.activeChannels - 1);
+      entry.lastUsed = Date.now();
+    });
+  }
+  return stream;
+}
+
+// Run a command to completion and collect its output
+export async function runPooledCommand(
+  key: string,
+  target: SshTarget,
+  command: string
+): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  const stream = await execPooled(key, target, command);
+
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    stream.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    stream.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+    stream.on('close', (code: number | null) => {
+      resolve({ code, stdout, stderr });
+    });
+  });
+}
+
+// Close and forget a pooled connection (e.g. on logout), along with any compute node
+// connections tunnelled through it
+export function closePooledClient(key: string): void {
+  const pool = getPool();
+  for (const [poolKey, entry] of pool.entries()) {
+    if (poolKey === key || poolKey.startsWith(`${key}>`)) {
+      pool.delete(poolKey);
+      entry.client.then(conn => conn.end(), () => undefined);
+    }
+  }
+}
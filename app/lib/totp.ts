@@ -0,0 +1,97 @@
+// Time-based one-time passwords (RFC 6238) on top of HOTP (RFC 4226).
+// Uses the settings every authenticator app supports: HMAC-SHA1, 6 digits, 30 second steps.
+import { createHmac, randomBytes } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, the size recommended by RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function timeStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+// HOTP value for a given counter (the time step, for TOTP)
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return binary.toString().padStart(DIGITS, '0');
+}
+
+// Find the time step a code belongs to, allowing `window` steps of clock drift either way.
+// Returns null when the code does not match.
+export function matchTotpCode(secret: string, code: string, now: number = Date.now(), window = 1): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const current = timeStep(now);
+  for (let step = current - window; step <= current + window; step++) {
+    if (generateTotpCode(secret, step) === normalized) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// otpauth:// URI understood by authenticator apps (usually shown as a QR code)
+export function buildOtpauthUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -4,11 +4,13 @@ import { useRouter } from 'next/navigation'
 import MlLoader from "./features/mlLoader"
 import JsonEditor from "./features/jsonEditor"
 import FileUploader from "./features/fileUploader"
+import MyRuns from "./features/myRuns"
+import WorkspaceManager from "./features/workspaceManager"
 import { useAuth } from './context/AuthContext'
 
 export default function Home() {
   const router = useRouter()
-  const { connectionDetails, clearAuth } = useAuth()
+  const { connectionDetails, clearAuth, isRestoringSession } = useAuth()
   
   // Shared state for JSON data between MlLoader and JsonEditor
   const [sharedJsonData, setSharedJsonData] = useState<any>(null)
@@ -26,12 +28,12 @@ export default function Home() {
     router.push('/auth')
   }
 
-  // Redirect to auth page if not authenticated
+  // Redirect to auth page if not authenticated (once the stored session has been checked)
   useEffect(() => {
-    if (!connectionDetails.isAuthenticated) {
+    if (!isRestoringSession && !connectionDetails.isAuthenticated) {
       router.push('/auth')
     }
-  }, [connectionDetails.isAuthenticated, router])
+  }, [isRestoringSession, connectionDetails.isAuthenticated, router])
 
   // If authenticated, this will show the dashboard with components laid out as requested
   return (
@@ -42,7 +44,7 @@ export default function Home() {
           <div className="flex items-center space-x-2">
             <div className="h-2 w-2 bg-green-500 rounded-full"></div>
             <span className="text-sm text-gray-300">
-              Connected as: <span className="font-medium">{connectionDetails.hostname}</span> to <span className="font-bold">CAIR.LOGIN</span>
+              Connected as: <span className="font-medium">{connectionDetails.hostname}</span> to <span className="font-bold">{connectionDetails.hostLabel}</span>
             </span>
           </div>
           <div className="flex items-center space-x-4">
@@ -71,6 +73,16 @@ export default function Home() {
             <div className="bg-gray-900 rounded-lg shadow-lg overflow-auto">
               <FileUploader onJsonUpload={handleJsonUpload} />
             </div>
+            
+            {/* Run history below the uploader */}
+            <div className="bg-gray-900 rounded-lg shadow-lg">
+              <MyRuns />
+            </div>
+
+            {/* Isolated run folders and their cleanup below the run history */}
+            <div className="bg-gray-900 rounded-lg shadow-lg">
+              <WorkspaceManager />
+            </div>
           </div>
           
           {/* JsonEditor takes full height on the right side - pass sharedJsonData */}
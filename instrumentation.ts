@@ -0,0 +1,7 @@
+// Runs once when the server process starts (see clientAddress.ts)
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { recordClientAddresses } = await import('./app/lib/clientAddress');
+    recordClientAddresses();
+  }
+}
@@ -0,0 +1,67 @@
+// Guards every /api route:
+// - answers CORS preflights and adds CORS headers for allowlisted origins only
+// - refuses state-changing requests sent from other sites (CSRF)
+// - requires a session token, except on the routes that create or check one
+//
+// Middleware runs in the edge runtime and can't read the session store, so here the token
+// is only checked for its form; every route then looks it up in the session store itself
+// (getRequestSession in sessionAuth.ts) before doing anything for the caller. Nothing is
+// fetched from here: the request's own Host can't be trusted to point back at this server.
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders, getOwnOrigin, isAllowedOrigin, isCrossSiteRequest } from './app/lib/cors';
+
+// Routes that don't take a session token: logging in, enrollment and session restore.
+// Admin routes are authenticated with X-Admin-Token by the routes themselves.
+const PUBLIC_API_PREFIXES = ['/api/auth', '/api/session', '/api/admin'];
+
+function isPublicApiRoute(pathname: string): boolean {
+  return PUBLIC_API_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+function jsonError(message: string, status: number, headers: Record<string, string>): NextResponse {
+  return NextResponse.json({ error: true, message }, { status, headers });
+}
+
+// Session tokens are 32 random bytes in hex (see createSessionToken in sessionStore.ts)
+const SESSION_TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+function hasSessionToken(request: NextRequest): boolean {
+  const header = request.headers.get('authorization');
+  if (!header || !header.toLowerCase().startsWith('bearer ')) {
+    return false;
+  }
+  return SESSION_TOKEN_PATTERN.test(header.slice(7).trim());
+}
+
+export function middleware(request: NextRequest) {
+  const ownOrigin = getOwnOrigin(request);
+  const origin = request.headers.get('origin');
+  const cors = corsHeaders(origin, ownOrigin);
+
+  // Preflight: only allowlisted origins get the go-ahead
+  if (request.method === 'OPTIONS') {
+    if (origin && !isAllowedOrigin(origin, ownOrigin)) {
+      return jsonError('Origin not allowed', 403, {});
+    }
+    return new NextResponse(null, { status: 204, headers: cors });
+  }
+
+  if (isCrossSiteRequest(request, ownOrigin)) {
+    console.warn(`Rejected cross-site ${request.method} ${request.nextUrl.pathname} from ${origin || 'unknown origin'}`);
+    return jsonError('Cross-site request rejected', 403, {});
+  }
+
+  if (!isPublicApiRoute(request.nextUrl.pathname) && !hasSessionToken(request)) {
+    return jsonError('Session expired or invalid. Please log in again.', 401, cors);
+  }
+
+  const response = NextResponse.next();
+  for (const [name, value] of Object.entries(cors)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // ssh2 ships an optional native addon that webpack can't bundle; load it from node_modules
+  serverExternalPackages: ["ssh2"],
 };
 
 export default nextConfig;
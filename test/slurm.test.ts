@@ -0,0 +1,177 @@
+// The SLURM backend's scheduler commands, run locally against the stand-in scripts in
+// fixtures/fake-slurm. Each test gets its own isolated folder and fake scheduler state.
+import { after, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SlurmConfig } from '../app/lib/hostProfiles';
+import { RUN_LOG_FILE } from '../app/lib/runProcess';
+import {
+  buildSbatchScript,
+  parseSlurmJobState,
+  parseSubmittedJobId,
+  RUN_SBATCH_FILE,
+  slurmCancelCommand,
+  slurmJobAliveCheck,
+  slurmJobStateCommand,
+  slurmSubmitCommand,
+} from '../app/lib/slurm';
+
+const FAKE_SLURM = path.join(__dirname, 'fixtures', 'fake-slurm');
+
+const config: SlurmConfig = {
+  partitions: ['gpu'],
+  defaultTimeLimit: '01:00:00',
+  defaultCpus: 4,
+  defaultMemory: '16G',
+  defaultGpus: 1,
+  commands: {
+    sbatch: path.join(FAKE_SLURM, 'sbatch'),
+    squeue: path.join(FAKE_SLURM, 'squeue'),
+    sacct: path.join(FAKE_SLURM, 'sacct'),
+    scancel: path.join(FAKE_SLURM, 'scancel'),
+  },
+};
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'vmes-slurm-test-'));
+let stateDir: string;
+let isolatedPath: string;
+
+// Run a command the way the login node would, from the isolated folder
+function run(command: string): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve) => {
+    execFile('bash', ['-c', command], { cwd: isolatedPath, env: { ...process.env, FAKE_SLURM_DIR: stateDir } }, (error, stdout, stderr) => {
+      resolve({ code: error ? Number(error.code) || 1 : 0, stdout, stderr });
+    });
+  });
+}
+
+// What the fake scheduler records for a job: "<state>|<exit code>:<signal>"
+function setJobRecord(jobId: string, record: string): void {
+  fs.writeFileSync(path.join(stateDir, jobId), `${record}\n`);
+}
+
+async function submit(): Promise<string> {
+  const script = buildSbatchScript('test', isolatedPath, { partition: 'gpu', timeLimit: '01:00:00', cpus: 4, memory: '16G', gpus: 1 }, 'python train.py');
+  const { code, stdout, stderr } = await run(slurmSubmitCommand(config, script));
+  assert.equal(code, 0, stderr);
+  const jobId = parseSubmittedJobId(stdout);
+  assert.ok(jobId, `no job id in ${JSON.stringify(stdout)}`);
+  return jobId;
+}
+
+async function getJobState(jobId: string) {
+  const { stdout } = await run(slurmJobStateCommand(config, jobId));
+  return parseSlurmJobState(stdout);
+}
+
+async function isAlive(jobId: string): Promise<boolean> {
+  return (await run(slurmJobAliveCheck(config, jobId))).code === 0;
+}
+
+beforeEach(() => {
+  const dir = fs.mkdtempSync(path.join(root, 'case-'));
+  stateDir = path.join(dir, 'slurm');
+  isolatedPath = path.join(dir, 'run');
+  fs.mkdirSync(stateDir);
+  fs.mkdirSync(isolatedPath);
+});
+
+after(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('submit', () => {
+  test('writes the batch script into the isolated folder and reports the job id', async () => {
+    fs.writeFileSync(path.join(isolatedPath, RUN_LOG_FILE), 'output of an earlier attempt\n');
+
+    const jobId = await submit();
+
+    assert.equal(jobId, '1001');
+    const script = fs.readFileSync(path.join(isolatedPath, RUN_SBATCH_FILE), 'utf8');
+    assert.match(script, /^#!\/bin\/bash\n/);
+    assert.match(script, /^#SBATCH --partition=gpu$/m);
+    assert.match(script, /^#SBATCH --gres=gpu:1$/m);
+    assert.ok(script.includes(`#SBATCH --output=${isolatedPath}/${RUN_LOG_FILE}`));
+    assert.ok(script.trimEnd().endsWith('python train.py'));
+    assert.equal(fs.readFileSync(path.join(stateDir, `${jobId}.sbatch`), 'utf8'), script);
+    assert.ok(!fs.existsSync(path.join(isolatedPath, RUN_LOG_FILE)));
+  });
+
+  test('fails when sbatch refuses the job', async () => {
+    const { code, stdout } = await run(slurmSubmitCommand(config, '#!/bin/bash\necho no options\n'));
+
+    assert.notEqual(code, 0);
+    assert.equal(parseSubmittedJobId(stdout), null);
+  });
+});
+
+describe('job state', () => {
+  test('a queued or running job is running, with its squeue state', async () => {
+    const jobId = await submit();
+    assert.deepEqual(await getJobState(jobId), { running: true, exitCode: null, state: 'PENDING' });
+    assert.equal(await isAlive(jobId), true);
+
+    setJobRecord(jobId, 'RUNNING|0:0');
+    assert.deepEqual(await getJobState(jobId), { running: true, exitCode: null, state: 'RUNNING' });
+    assert.equal(await isAlive(jobId), true);
+  });
+
+  test('a completed job has its exit code from sacct', async () => {
+    const jobId = await submit();
+    setJobRecord(jobId, 'COMPLETED|0:0');
+
+    assert.deepEqual(await getJobState(jobId), { running: false, exitCode: 0, state: 'COMPLETED' });
+    assert.equal(await isAlive(jobId), false);
+  });
+
+  test('a failed job keeps the script\'s exit code', async () => {
+    const jobId = await submit();
+    setJobRecord(jobId, 'FAILED|2:0');
+
+    assert.deepEqual(await getJobState(jobId), { running: false, exitCode: 2, state: 'FAILED' });
+  });
+
+  test('a job the scheduler ended is not a success, whatever its exit code', async () => {
+    const jobId = await submit();
+    setJobRecord(jobId, 'TIMEOUT|0:0');
+    assert.deepEqual(await getJobState(jobId), { running: false, exitCode: null, state: 'TIMEOUT' });
+
+    setJobRecord(jobId, 'OUT_OF_MEMORY|0:125');
+    assert.deepEqual(await getJobState(jobId), { running: false, exitCode: null, state: 'OUT_OF_MEMORY' });
+  });
+
+  test('a job SLURM has no record of is unknown', async () => {
+    assert.deepEqual(await getJobState('4242'), { running: false, exitCode: null, state: 'UNKNOWN' });
+    assert.equal(await isAlive('4242'), false);
+  });
+});
+
+describe('cancel', () => {
+  test('cancels a queued job', async () => {
+    const jobId = await submit();
+
+    const { code } = await run(slurmCancelCommand(config, jobId));
+
+    assert.equal(code, 0);
+    assert.deepEqual(await getJobState(jobId), { running: false, exitCode: null, state: 'CANCELLED' });
+    assert.equal(await isAlive(jobId), false);
+  });
+
+  test('cancels a running job', async () => {
+    const jobId = await submit();
+    setJobRecord(jobId, 'RUNNING|0:0');
+
+    assert.equal((await run(slurmCancelCommand(config, jobId))).code, 0);
+    assert.equal((await getJobState(jobId)).state, 'CANCELLED');
+  });
+
+  test('reports scancel\'s error for a job it doesn\'t know', async () => {
+    const { code, stderr } = await run(slurmCancelCommand(config, '4242'));
+
+    assert.notEqual(code, 0);
+    assert.match(stderr, /Invalid job id specified/);
+  });
+});